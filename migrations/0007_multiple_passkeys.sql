@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "Credential_userId_key";
+
+-- AlterTable
+ALTER TABLE "Credential" ADD COLUMN "lastUsedAt" DATETIME;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "EmailChange" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "oldEmail" TEXT,
+    "newEmail" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "revertToken" TEXT NOT NULL,
+    "expires" DATETIME NOT NULL,
+    "confirmedAt" DATETIME,
+    "revertedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EmailChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailChange_token_key" ON "EmailChange"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailChange_revertToken_key" ON "EmailChange"("revertToken");
+
+-- CreateIndex
+CREATE INDEX "EmailChange_userId_idx" ON "EmailChange"("userId");
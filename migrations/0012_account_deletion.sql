@@ -0,0 +1,86 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "deletedAt" DATETIME;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Credential" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" DATETIME,
+    "deviceName" TEXT,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" BLOB NOT NULL,
+    "counter" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "Credential_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Credential" ("counter", "createdAt", "credentialId", "deviceName", "id", "lastUsedAt", "publicKey", "userId") SELECT "counter", "createdAt", "credentialId", "deviceName", "id", "lastUsedAt", "publicKey", "userId" FROM "Credential";
+DROP TABLE "Credential";
+ALTER TABLE "new_Credential" RENAME TO "Credential";
+CREATE UNIQUE INDEX "Credential_credentialId_key" ON "Credential"("credentialId");
+CREATE INDEX "Credential_credentialId_idx" ON "Credential"("credentialId");
+CREATE INDEX "Credential_userId_idx" ON "Credential"("userId");
+CREATE TABLE "new_OrganizationMembership" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OrganizationMembership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OrganizationMembership_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_OrganizationMembership" ("id", "joinedAt", "organizationId", "role", "userId") SELECT "id", "joinedAt", "organizationId", "role", "userId" FROM "OrganizationMembership";
+DROP TABLE "OrganizationMembership";
+ALTER TABLE "new_OrganizationMembership" RENAME TO "OrganizationMembership";
+CREATE UNIQUE INDEX "OrganizationMembership_userId_organizationId_key" ON "OrganizationMembership"("userId", "organizationId");
+CREATE TABLE "new_Profile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "bio" TEXT,
+    "location" TEXT,
+    "experienceLevel" TEXT,
+    "profilePicture" TEXT,
+    "privacySettings" TEXT,
+    "sailingExperience" TEXT,
+    "certifications" TEXT,
+    "boatInformation" TEXT,
+    "clubAffiliation" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Profile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Profile" ("bio", "boatInformation", "certifications", "clubAffiliation", "createdAt", "experienceLevel", "id", "location", "name", "privacySettings", "profilePicture", "sailingExperience", "updatedAt", "userId") SELECT "bio", "boatInformation", "certifications", "clubAffiliation", "createdAt", "experienceLevel", "id", "location", "name", "privacySettings", "profilePicture", "sailingExperience", "updatedAt", "userId" FROM "Profile";
+DROP TABLE "Profile";
+ALTER TABLE "new_Profile" RENAME TO "Profile";
+CREATE UNIQUE INDEX "Profile_userId_key" ON "Profile"("userId");
+CREATE TABLE "new_Post" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "category" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "publishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Post_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Post" ("category", "content", "createdAt", "id", "publishedAt", "status", "title", "updatedAt", "userId") SELECT "category", "content", "createdAt", "id", "publishedAt", "status", "title", "updatedAt", "userId" FROM "Post";
+DROP TABLE "Post";
+ALTER TABLE "new_Post" RENAME TO "Post";
+CREATE TABLE "new_Comment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Comment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Comment_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Comment" ("content", "createdAt", "id", "postId", "userId") SELECT "content", "createdAt", "id", "postId", "userId" FROM "Comment";
+DROP TABLE "Comment";
+ALTER TABLE "new_Comment" RENAME TO "Comment";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
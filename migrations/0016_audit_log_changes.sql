@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "AuditLog" ADD COLUMN "before" TEXT;
+ALTER TABLE "AuditLog" ADD COLUMN "after" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AuditLog_organizationId_idx" ON "AuditLog"("organizationId");
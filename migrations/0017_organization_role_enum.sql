@@ -0,0 +1,9 @@
+-- OrganizationMembership.role and OrganizationInvitation.role are now the
+-- OrganizationRole enum. SQLite stores enums as TEXT, so the columns are
+-- unchanged; normalise existing values so every row reads back as a member
+-- of the enum.
+UPDATE "OrganizationMembership" SET "role" = UPPER(TRIM("role"));
+UPDATE "OrganizationMembership" SET "role" = 'MEMBER' WHERE "role" NOT IN ('ADMIN', 'COACH', 'MEMBER');
+
+UPDATE "OrganizationInvitation" SET "role" = UPPER(TRIM("role"));
+UPDATE "OrganizationInvitation" SET "role" = 'MEMBER' WHERE "role" NOT IN ('ADMIN', 'COACH', 'MEMBER');
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Post_status_publishedAt_idx" ON "Post"("status", "publishedAt");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "OrganizationCategory" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "organizationId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OrganizationCategory_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationCategory_organizationId_slug_key" ON "OrganizationCategory"("organizationId", "slug");
+
+-- CreateIndex
+CREATE INDEX "OrganizationCategory_slug_idx" ON "OrganizationCategory"("slug");
+
+-- CreateIndex
+CREATE INDEX "Post_status_category_idx" ON "Post"("status", "category");
+
+-- Post.category now holds a slug; existing free-text values become slugs
+UPDATE "Post" SET "category" = NULL WHERE TRIM("category") = '';
+UPDATE "Post" SET "category" = LOWER(REPLACE(TRIM("category"), ' ', '-')) WHERE "category" IS NOT NULL;
+UPDATE "Post" SET "category" = 'event' WHERE "category" = 'events';
@@ -1,7 +1,10 @@
 import styles from "./styles.css?url";
+import type { AppContext } from "@/worker";
+import { ImpersonationBanner } from "@/app/components/ImpersonationBanner";
 
-export const Document: React.FC<{ children: React.ReactNode }> = ({
+export const Document: React.FC<{ children: React.ReactNode; ctx?: AppContext }> = ({
   children,
+  ctx,
 }) => (
   <html lang="en">
     <head>
@@ -13,6 +16,7 @@ export const Document: React.FC<{ children: React.ReactNode }> = ({
       <link rel="stylesheet" href={styles} />
     </head>
     <body>
+      <ImpersonationBanner ctx={ctx} />
       <div id="root">{children}</div>
       <script>import("/src/client.tsx")</script>
     </body>
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { requestInfo } from 'rwsdk/worker'
+import { db } from '@/db'
+import { requireSelf, requireSuperuser, requirePermission, can } from '../authorization'
+import { updateUserProfile, deleteUserProfile } from '@/app/pages/user/profile/functions'
+import { createOrganization } from '@/app/pages/superuser/functions'
+import * as organizations from '@/app/pages/superuser/organizations'
+
+vi.mock('@/db', () => ({
+  db: {
+    organizationMembership: { findFirst: vi.fn() },
+    profile: { update: vi.fn(), delete: vi.fn() },
+  },
+}))
+
+vi.mock('@/app/pages/superuser/organizations', () => ({
+  createOrganization: vi.fn(),
+}))
+
+const ctx = requestInfo.ctx as { user?: { id: string; role: string } }
+
+function signInAs(user?: { id: string; role: string }) {
+  ctx.user = user
+}
+
+describe('Server function authorization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    signInAs(undefined)
+  })
+
+  describe('requireSelf', () => {
+    it('should reject anonymous callers', () => {
+      expect(() => requireSelf('user-1')).toThrow('Unauthorized')
+    })
+
+    it('should only allow the user to act on their own account', () => {
+      signInAs({ id: 'user-1', role: 'USER' })
+      expect(requireSelf('user-1')).toEqual({ id: 'user-1', role: 'USER' })
+      expect(() => requireSelf('user-2')).toThrow(/Access Denied/)
+    })
+  })
+
+  describe('requireSuperuser', () => {
+    it('should reject users without the SUPERUSER role', () => {
+      signInAs({ id: 'user-1', role: 'ADMIN' })
+      expect(() => requireSuperuser()).toThrow(/SUPERUSER role required/)
+
+      signInAs({ id: 'user-1', role: 'SUPERUSER' })
+      expect(requireSuperuser().id).toBe('user-1')
+    })
+  })
+
+  describe('requirePermission', () => {
+    it("should check the permission against the caller's role in that organization", async () => {
+      signInAs({ id: 'user-1', role: 'USER' })
+      vi.mocked(db.organizationMembership.findFirst).mockResolvedValue({ role: 'COACH' } as never)
+
+      await expect(requirePermission('org-1', 'member.invite')).rejects.toThrow(/Access Denied/)
+      await expect(requirePermission('org-1', 'event.create')).resolves.toMatchObject({ id: 'user-1' })
+      expect(db.organizationMembership.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-1', organizationId: 'org-1' } })
+      )
+    })
+
+    it('should reject non-members', async () => {
+      signInAs({ id: 'user-1', role: 'USER' })
+      vi.mocked(db.organizationMembership.findFirst).mockResolvedValue(null)
+
+      await expect(requirePermission('org-1', 'organization.view')).rejects.toThrow(/Access Denied/)
+    })
+
+    it('should let a SUPERUSER manage any organization', async () => {
+      signInAs({ id: 'root', role: 'SUPERUSER' })
+
+      await expect(requirePermission('org-1', 'organization.manage')).resolves.toMatchObject({ id: 'root' })
+      expect(db.organizationMembership.findFirst).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('can', () => {
+    it('should deny anonymous users', async () => {
+      await expect(can(undefined, 'organization.view', 'org-1')).resolves.toBe(false)
+      expect(db.organizationMembership.findFirst).not.toHaveBeenCalled()
+    })
+
+    it("should follow the user's role in the organization", async () => {
+      vi.mocked(db.organizationMembership.findFirst).mockResolvedValue({ role: 'MEMBER' } as never)
+
+      await expect(can({ id: 'user-1', role: 'USER' }, 'post.create', 'org-1')).resolves.toBe(true)
+      await expect(can({ id: 'user-1', role: 'USER' }, 'diary.view_athletes', 'org-1')).resolves.toBe(false)
+    })
+  })
+
+  describe('profile functions', () => {
+    it("should not let a user change another user's profile", async () => {
+      signInAs({ id: 'user-1', role: 'USER' })
+
+      await expect(updateUserProfile('user-2', { name: 'Hijacked' })).rejects.toThrow(/Access Denied/)
+      await expect(deleteUserProfile('user-2')).rejects.toThrow(/Access Denied/)
+      expect(db.profile.update).not.toHaveBeenCalled()
+      expect(db.profile.delete).not.toHaveBeenCalled()
+    })
+
+    it('should let a user change their own profile', async () => {
+      signInAs({ id: 'user-1', role: 'USER' })
+      vi.mocked(db.profile.update).mockResolvedValue({ userId: 'user-1' } as never)
+
+      await expect(updateUserProfile('user-1', { name: 'Sam' })).resolves.toEqual({ userId: 'user-1' })
+      expect(db.profile.update).toHaveBeenCalledWith({ where: { userId: 'user-1' }, data: { name: 'Sam' } })
+    })
+  })
+
+  describe('superuser functions', () => {
+    it('should not let a regular user create organizations', async () => {
+      signInAs({ id: 'user-1', role: 'USER' })
+
+      await expect(createOrganization('Rogue Club')).rejects.toThrow(/SUPERUSER role required/)
+      expect(organizations.createOrganization).not.toHaveBeenCalled()
+    })
+
+    it('should reject anonymous callers', async () => {
+      await expect(createOrganization('Rogue Club')).rejects.toThrow('Unauthorized')
+      expect(organizations.createOrganization).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { pbkdf2Sync } from 'crypto'
+import {
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  CURRENT_HASH_VERSION,
+} from '../password'
+
+// Build a hash in the pre-versioning `salt:hash` format (1000 iterations)
+function legacyHash(password: string, salt = 'abcdef0123456789') {
+  const hash = pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex')
+  return `${salt}:${hash}`
+}
+
+describe('Password hashing', () => {
+  describe('hashPassword', () => {
+    it('should encode algorithm, version and iterations in the stored hash', () => {
+      const stored = hashPassword('password123')
+
+      expect(stored).toMatch(
+        new RegExp(`^\\$pbkdf2-sha512\\$v=${CURRENT_HASH_VERSION},i=\\d+\\$[0-9a-f]{32}\\$[0-9a-f]{128}$`)
+      )
+    })
+
+    it('should use a fresh salt for every hash', () => {
+      expect(hashPassword('password123')).not.toBe(hashPassword('password123'))
+    })
+  })
+
+  describe('verifyPassword', () => {
+    it('should accept the correct password for a current hash', () => {
+      const stored = hashPassword('password123')
+
+      expect(verifyPassword('password123', stored)).toBe(true)
+    })
+
+    it('should reject an incorrect password for a current hash', () => {
+      const stored = hashPassword('password123')
+
+      expect(verifyPassword('wrongpassword', stored)).toBe(false)
+    })
+
+    it('should verify legacy salt:hash passwords', () => {
+      const stored = legacyHash('password123')
+
+      expect(verifyPassword('password123', stored)).toBe(true)
+      expect(verifyPassword('wrongpassword', stored)).toBe(false)
+    })
+
+    it('should not let the stored iteration count lower the cost', () => {
+      const salt = '0123456789abcdef'
+      const hash = pbkdf2Sync('password123', salt, 1, 64, 'sha512').toString('hex')
+
+      expect(verifyPassword('password123', `$pbkdf2-sha512$v=2,i=1$${salt}$${hash}`)).toBe(false)
+    })
+
+    it('should reject hashes with an unknown version', () => {
+      const salt = '0123456789abcdef'
+      const hash = pbkdf2Sync('password123', salt, 100000, 64, 'sha512').toString('hex')
+
+      expect(verifyPassword('password123', `$pbkdf2-sha512$v=9,i=100000$${salt}$${hash}`)).toBe(false)
+    })
+
+    it('should reject hashes whose digest is not hex, whatever the password', () => {
+      expect(verifyPassword('anything', '$pbkdf2-sha512$v=2,i=1$x$zz')).toBe(false)
+      expect(verifyPassword('anything', '$pbkdf2-sha512$v=2,i=100000$x$zz')).toBe(false)
+      expect(verifyPassword('anything', `$pbkdf2-sha512$v=2,i=100000$x$${'z'.repeat(128)}`)).toBe(false)
+      expect(verifyPassword('anything', 'salt:zz')).toBe(false)
+    })
+
+    it('should reject digests of the wrong length', () => {
+      const stored = hashPassword('password123')
+
+      expect(verifyPassword('password123', stored.slice(0, -2))).toBe(false)
+    })
+
+    it('should reject malformed hashes', () => {
+      expect(verifyPassword('password123', '')).toBe(false)
+      expect(verifyPassword('password123', 'not-a-hash')).toBe(false)
+      expect(verifyPassword('password123', '$bcrypt$v=1,i=10$salt$hash')).toBe(false)
+      expect(verifyPassword('password123', '$pbkdf2-sha512$v=2$salt$hash')).toBe(false)
+    })
+  })
+
+  describe('needsRehash', () => {
+    it('should not flag hashes created with current parameters', () => {
+      expect(needsRehash(hashPassword('password123'))).toBe(false)
+    })
+
+    it('should flag legacy salt:hash passwords', () => {
+      expect(needsRehash(legacyHash('password123'))).toBe(true)
+    })
+
+    it('should flag hashes whose iterations disagree with their version', () => {
+      const salt = '0123456789abcdef'
+      const hash = pbkdf2Sync('password123', salt, 5000, 64, 'sha512').toString('hex')
+
+      expect(needsRehash(`$pbkdf2-sha512$v=2,i=5000$${salt}$${hash}`)).toBe(true)
+    })
+
+    it('should flag unparseable hashes', () => {
+      expect(needsRehash('garbage')).toBe(true)
+    })
+  })
+})
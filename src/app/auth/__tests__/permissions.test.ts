@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { PERMISSIONS, ROLE_PERMISSIONS, roleCan } from '../permissions'
+
+describe('Organization permissions', () => {
+  it('should give each role everything the roles below it have', () => {
+    for (const permission of ROLE_PERMISSIONS.MEMBER) {
+      expect(ROLE_PERMISSIONS.COACH).toContain(permission)
+    }
+    for (const permission of ROLE_PERMISSIONS.COACH) {
+      expect(ROLE_PERMISSIONS.ADMIN).toContain(permission)
+    }
+    expect(ROLE_PERMISSIONS.ADMIN).toEqual(PERMISSIONS)
+  })
+
+  it('should keep coaching tools from members', () => {
+    expect(roleCan('MEMBER', 'post.create')).toBe(true)
+    expect(roleCan('MEMBER', 'post.publish')).toBe(false)
+    expect(roleCan('MEMBER', 'diary.view_athletes')).toBe(false)
+    expect(roleCan('COACH', 'diary.view_athletes')).toBe(true)
+    expect(roleCan('COACH', 'event.create')).toBe(true)
+  })
+
+  it('should reserve membership and settings changes for admins', () => {
+    for (const permission of ['member.invite', 'member.manage', 'organization.manage', 'audit.view'] as const) {
+      expect(roleCan('ADMIN', permission)).toBe(true)
+      expect(roleCan('COACH', permission)).toBe(false)
+    }
+  })
+
+  it('should grant nothing without a known role', () => {
+    expect(roleCan(null, 'organization.view')).toBe(false)
+    expect(roleCan('OWNER', 'organization.view')).toBe(false)
+    expect(roleCan('toString', 'organization.view')).toBe(false)
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp,
+} from '../totp'
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    })
+
+    it('should decode lowercase secrets with spaces and padding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar')
+    })
+  })
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000), 8)).toBe('94287082')
+      expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000), 8)).toBe('07081804')
+      expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000), 8)).toBe('89005924')
+    })
+
+    it('should produce six digit codes by default', () => {
+      expect(generateTotp(generateTotpSecret())).toMatch(/^\d{6}$/)
+    })
+  })
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000
+    const step = getTotpStep(now)
+
+    it('should accept the current code and return its step', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), { now })).toBe(step)
+    })
+
+    it('should accept codes one step either side for clock drift', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now })).toBe(step - 1)
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now })).toBe(step + 1)
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), { now })).toBeNull()
+    })
+
+    it('should reject a code that was already used', () => {
+      const code = generateTotp(RFC_SECRET, step)
+
+      expect(verifyTotp(RFC_SECRET, code, { now, lastUsedStep: step })).toBeNull()
+    })
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', { now })).toBeNull()
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull()
+    })
+  })
+
+  describe('buildOtpauthUri', () => {
+    it('should include the issuer, account and secret', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'sam@example.com', 'ILCA KNS')
+
+      expect(uri).toMatch(/^otpauth:\/\/totp\/ILCA%20KNS%3Asam%40example\.com\?/)
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP')
+      expect(uri).toContain('issuer=ILCA+KNS')
+    })
+  })
+
+  describe('recovery codes', () => {
+    it('should generate unique codes in the expected format', () => {
+      const codes = generateRecoveryCodes()
+
+      expect(codes).toHaveLength(10)
+      expect(new Set(codes).size).toBe(10)
+      codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/))
+    })
+
+    it('should hash codes regardless of case and separators', () => {
+      expect(hashRecoveryCode('ABCDE FGHIJ')).toBe(hashRecoveryCode('abcde-fghij'))
+      expect(hashRecoveryCode('abcde-fghij')).not.toBe(hashRecoveryCode('abcde-fghik'))
+    })
+  })
+})
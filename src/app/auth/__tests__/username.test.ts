@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeUsername, validateUsername } from '../username'
+
+describe('Username policy', () => {
+  describe('normalizeUsername', () => {
+    it('should trim and case-fold', () => {
+      expect(normalizeUsername('  Sailor_Sam ')).toBe('sailor_sam')
+    })
+
+    it('should fold compatibility characters', () => {
+      // Fullwidth letters look identical to their ASCII counterparts
+      expect(normalizeUsername('ｓａｍ')).toBe('sam')
+    })
+  })
+
+  describe('validateUsername', () => {
+    it('should accept and normalise a valid username', () => {
+      expect(validateUsername('Laser-Sailor_42')).toEqual({ valid: true, username: 'laser-sailor_42' })
+    })
+
+    it('should enforce length limits', () => {
+      expect(validateUsername('ab')).toEqual({ valid: false, error: 'USERNAME_TOO_SHORT' })
+      expect(validateUsername('a'.repeat(31))).toEqual({ valid: false, error: 'USERNAME_TOO_LONG' })
+      expect(validateUsername('a'.repeat(30))).toEqual({ valid: true, username: 'a'.repeat(30) })
+    })
+
+    it('should reject characters that are unsafe in URLs', () => {
+      for (const username of ['sam smith', 'sam/../admin', 'sam@example.com', 'sam.smith', 'søren']) {
+        expect(validateUsername(username)).toEqual({ valid: false, error: 'USERNAME_INVALID_CHARACTERS' })
+      }
+    })
+
+    it('should require a letter or digit at both ends', () => {
+      expect(validateUsername('-sam')).toEqual({ valid: false, error: 'USERNAME_INVALID_CHARACTERS' })
+      expect(validateUsername('sam_')).toEqual({ valid: false, error: 'USERNAME_INVALID_CHARACTERS' })
+    })
+
+    it('should reject reserved names regardless of case', () => {
+      for (const username of ['login', 'Signup', 'LOGOUT', 'admin', 'superuser']) {
+        expect(validateUsername(username)).toEqual({ valid: false, error: 'USERNAME_RESERVED' })
+      }
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { requestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { PERMISSIONS, roleCan, type Permission } from "./permissions";
+
+// Authorization for server functions. Routes are guarded by interceptors,
+// but a "use server" function can be called directly from any page with any
+// arguments, so each one checks the caller itself. These throw rather than
+// return, the same way an unauthenticated call always has.
+
+export function requireUser() {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  return ctx.user;
+}
+
+// For functions that take a user ID: only that user may act on it
+export function requireSelf(userId: string) {
+  const user = requireUser();
+
+  if (user.id !== userId) {
+    throw new Error("Access Denied: you can only change your own account");
+  }
+
+  return user;
+}
+
+export function requireSuperuser() {
+  const user = requireUser();
+
+  if (user.role !== "SUPERUSER") {
+    throw new Error("Access Denied: SUPERUSER role required");
+  }
+
+  return user;
+}
+
+// The caller's role in an organization, or null if they aren't a member
+export async function getOrganizationRole(userId: string, organizationId: string) {
+  const membership = await db.organizationMembership.findFirst({
+    where: { userId, organizationId },
+    select: { role: true },
+  });
+
+  return membership?.role ?? null;
+}
+
+// Everything the user may do in the organization. SUPERUSERs manage every
+// organization, so they get every permission without being a member.
+export async function getOrganizationPermissions(
+  user: { id: string; role: string } | null | undefined,
+  organizationId: string
+): Promise<Permission[]> {
+  if (!user) {
+    return [];
+  }
+
+  if (user.role === "SUPERUSER") {
+    return PERMISSIONS;
+  }
+
+  const role = await getOrganizationRole(user.id, organizationId);
+  return PERMISSIONS.filter((permission) => roleCan(role, permission));
+}
+
+export async function can(
+  user: { id: string; role: string } | null | undefined,
+  permission: Permission,
+  organizationId: string
+) {
+  const permissions = await getOrganizationPermissions(user, organizationId);
+  return permissions.includes(permission);
+}
+
+export async function requirePermission(organizationId: string, permission: Permission) {
+  const user = requireUser();
+
+  if (!(await can(user, permission, organizationId))) {
+    throw new Error(`Access Denied: ${permission} permission required`);
+  }
+
+  return user;
+}
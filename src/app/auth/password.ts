@@ -1,15 +1,97 @@
-import { pbkdf2Sync, randomBytes } from "crypto";
+import { pbkdf2Sync, randomBytes, timingSafeEqual } from "crypto";
 
-// Hash password with salt
+// Stored hashes look like `$pbkdf2-sha512$v=2,i=100000$<salt>$<hash>`.
+// The version picks the cost parameters from HASH_VERSIONS, so raising the
+// work factor only means bumping CURRENT_HASH_VERSION and adding an entry
+// below; existing hashes keep verifying and get upgraded on next login. The
+// stored iteration count is informational and must agree with its version:
+// a stored string never gets to weaken the parameters it's checked with.
+// Legacy `salt:hash` strings (1000 iterations) are treated as version 1.
+
+type HashParams = {
+  digest: "sha512";
+  iterations: number;
+  keyLength: number;
+};
+
+// Workers cap PBKDF2 at 100k iterations, so stay at or below that
+const HASH_VERSIONS: Record<number, HashParams> = {
+  1: { digest: "sha512", iterations: 1000, keyLength: 64 },
+  2: { digest: "sha512", iterations: 100000, keyLength: 64 },
+};
+
+export const CURRENT_HASH_VERSION = 2;
+
+type ParsedHash = HashParams & {
+  version: number;
+  salt: string;
+  hash: string;
+};
+
+function parseParts(version: number, salt: string, hash: string): ParsedHash | null {
+  const params = HASH_VERSIONS[version];
+  if (!params || !salt) return null;
+
+  // Buffer.from() silently drops non-hex input, and an empty digest would
+  // compare equal to anything
+  if (hash.length !== params.keyLength * 2 || !/^[0-9a-f]+$/i.test(hash)) {
+    return null;
+  }
+
+  return { ...params, version, salt, hash };
+}
+
+function parseHash(storedHash: string): ParsedHash | null {
+  // Legacy format from before hashes were versioned
+  if (!storedHash.startsWith("$")) {
+    const [salt, hash] = storedHash.split(":");
+    if (!salt || !hash) return null;
+    return parseParts(1, salt, hash);
+  }
+
+  const [, algorithm, params, salt, hash] = storedHash.split("$");
+  if (algorithm !== "pbkdf2-sha512" || !params || !salt || !hash) return null;
+
+  const values = Object.fromEntries(
+    params.split(",").map((pair) => pair.split("=") as [string, string])
+  );
+  const version = Number(values.v);
+  if (!Number.isInteger(version) || Number(values.i) !== HASH_VERSIONS[version]?.iterations) {
+    return null;
+  }
+
+  return parseParts(version, salt, hash);
+}
+
+// Hash password with salt using the current version's parameters
 export function hashPassword(password: string): string {
-  const salt = randomBytes(16).toString('hex');
-  const hash = pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
+  const { digest, iterations, keyLength } = HASH_VERSIONS[CURRENT_HASH_VERSION];
+  const salt = randomBytes(16).toString("hex");
+  const hash = pbkdf2Sync(password, salt, iterations, keyLength, digest).toString("hex");
+  return `$pbkdf2-${digest}$v=${CURRENT_HASH_VERSION},i=${iterations}$${salt}$${hash}`;
 }
 
-// Verify password against stored hash
+// Verify password against stored hash (constant-time comparison)
 export function verifyPassword(password: string, storedHash: string): boolean {
-  const [salt, hash] = storedHash.split(':');
-  const verifyHash = pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
-}
\ No newline at end of file
+  const parsed = parseHash(storedHash);
+  if (!parsed) return false;
+
+  const expected = Buffer.from(parsed.hash, "hex");
+  const actual = pbkdf2Sync(
+    password,
+    parsed.salt,
+    parsed.iterations,
+    parsed.keyLength,
+    parsed.digest
+  );
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Whether a stored hash was produced with outdated parameters
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parseHash(storedHash);
+  if (!parsed) return true;
+
+  return parsed.version < CURRENT_HASH_VERSION;
+}
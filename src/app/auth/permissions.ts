@@ -0,0 +1,41 @@
+import { roleHierarchy } from "@/app/shared/constants";
+import { ORGANIZATION_ROLES, isOrganizationRole, type OrganizationRole } from "@/app/pages/org/roles";
+
+// What each organization role may do. Every permission names the least
+// privileged role that has it; more senior roles inherit it through
+// roleHierarchy, so the matrix can't drift from the hierarchy. Pure, so
+// client components can use it to hide actions too.
+
+const MINIMUM_ROLE = {
+  "organization.view": "MEMBER",
+  "post.create": "MEMBER",
+  "post.publish": "COACH",
+  "event.create": "COACH",
+  "diary.view_athletes": "COACH",
+  "member.view": "COACH",
+  "member.invite": "ADMIN",
+  "member.manage": "ADMIN",
+  "organization.manage": "ADMIN",
+  "audit.view": "ADMIN",
+} satisfies Record<string, OrganizationRole>;
+
+export type Permission = keyof typeof MINIMUM_ROLE;
+
+export const PERMISSIONS = Object.keys(MINIMUM_ROLE) as Permission[];
+
+export const ROLE_PERMISSIONS = Object.fromEntries(
+  ORGANIZATION_ROLES.map((role) => [
+    role,
+    PERMISSIONS.filter((permission) => roleHierarchy[role].includes(MINIMUM_ROLE[permission])),
+  ])
+) as Record<OrganizationRole, Permission[]>;
+
+// Whether a role within an organization grants the permission; no role
+// (not a member) grants nothing
+export function roleCan(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !isOrganizationRole(role)) {
+    return false;
+  }
+
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,88 @@
+// Usernames appear in `/user/:username/...` URLs, so they're case-folded and
+// restricted to characters that never need escaping. Validation is pure so
+// the Signup form and the server functions agree on the rules.
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Letters, digits, `-` and `_`, starting and ending with a letter or digit
+const USERNAME_PATTERN = /^[a-z0-9](?:[a-z0-9_-]*[a-z0-9])?$/;
+
+// Route segments and names that could be mistaken for staff or the system
+export const RESERVED_USERNAMES = new Set([
+  "admin",
+  "administrator",
+  "api",
+  "confirm-email-change",
+  "dev",
+  "edit",
+  "export",
+  "forgot-password",
+  "help",
+  "home",
+  "invite",
+  "login",
+  "logout",
+  "me",
+  "moderator",
+  "new",
+  "null",
+  "org",
+  "posts",
+  "profile",
+  "reset-password",
+  "revert-email-change",
+  "root",
+  "settings",
+  "signup",
+  "staff",
+  "superuser",
+  "support",
+  "system",
+  "undefined",
+  "user",
+  "users",
+  "verify-email",
+]);
+
+export type UsernameErrorCode =
+  | "USERNAME_TOO_SHORT"
+  | "USERNAME_TOO_LONG"
+  | "USERNAME_INVALID_CHARACTERS"
+  | "USERNAME_RESERVED"
+  | "USERNAME_TAKEN";
+
+export const USERNAME_ERROR_MESSAGES: Record<UsernameErrorCode, string> = {
+  USERNAME_TOO_SHORT: `Username must be at least ${USERNAME_MIN_LENGTH} characters`,
+  USERNAME_TOO_LONG: `Username must be at most ${USERNAME_MAX_LENGTH} characters`,
+  USERNAME_INVALID_CHARACTERS:
+    "Username can only contain letters, numbers, - and _, and must start and end with a letter or number",
+  USERNAME_RESERVED: "That username is reserved",
+  USERNAME_TAKEN: "That username is already taken",
+};
+
+export function normalizeUsername(username: string): string {
+  return username.normalize("NFKC").trim().toLowerCase();
+}
+
+// Format and policy checks only; availability needs the database
+export function validateUsername(
+  username: string
+): { valid: true; username: string } | { valid: false; error: UsernameErrorCode } {
+  const normalized = normalizeUsername(username);
+
+  if (normalized.length < USERNAME_MIN_LENGTH) {
+    return { valid: false, error: "USERNAME_TOO_SHORT" };
+  }
+  if (normalized.length > USERNAME_MAX_LENGTH) {
+    return { valid: false, error: "USERNAME_TOO_LONG" };
+  }
+  if (!USERNAME_PATTERN.test(normalized)) {
+    return { valid: false, error: "USERNAME_INVALID_CHARACTERS" };
+  }
+  if (RESERVED_USERNAMES.has(normalized)) {
+    return { valid: false, error: "USERNAME_RESERVED" };
+  }
+
+  return { valid: true, username: normalized };
+}
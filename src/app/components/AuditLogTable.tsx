@@ -0,0 +1,93 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+import type { AuditLogEntry } from "@/audit/query";
+import type { AuditValues } from "@/audit/diff";
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// "role: MEMBER → COACH", one line per changed field
+function Changes({ before, after }: { before: AuditValues | null; after: AuditValues | null }) {
+  const keys = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  if (keys.length === 0) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <ul className="space-y-0.5">
+      {keys.map((key) => (
+        <li key={key}>
+          <span className="text-muted-foreground">{key}:</span>{" "}
+          {before && <span className="line-through decoration-red-400">{formatValue(before[key])}</span>}
+          {before && after && " → "}
+          {after && <span>{formatValue(after[key])}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// IP addresses are for SUPERUSERs only; organization admins don't see them
+export function AuditLogTable({
+  entries,
+  showOrganization = false,
+  showIp = false,
+}: {
+  entries: AuditLogEntry[];
+  showOrganization?: boolean;
+  showIp?: boolean;
+}) {
+  if (entries.length === 0) {
+    return <p className="p-8 text-center text-gray-600">No matching entries.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Actor</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Target</TableHead>
+          {showOrganization && <TableHead>Organization</TableHead>}
+          <TableHead>Changes</TableHead>
+          {showIp && <TableHead>IP</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id} className="align-top text-sm">
+            <TableCell className="whitespace-nowrap">{entry.createdAt.toLocaleString()}</TableCell>
+            <TableCell>{entry.actorName ?? <span className="text-muted-foreground">System</span>}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className="font-mono">{entry.action}</Badge>
+            </TableCell>
+            <TableCell>
+              {entry.targetType && (
+                <>
+                  <span className="text-muted-foreground">{entry.targetType}</span>{" "}
+                  {entry.targetName ?? <span className="font-mono text-xs">{entry.targetId}</span>}
+                </>
+              )}
+            </TableCell>
+            {showOrganization && <TableCell>{entry.organizationName ?? "—"}</TableCell>}
+            <TableCell className="max-w-xs break-words">
+              <Changes before={entry.before} after={entry.after} />
+              {entry.metadata && (
+                <p className="mt-1 text-xs text-muted-foreground">{formatValue(entry.metadata)}</p>
+              )}
+            </TableCell>
+            {showIp && <TableCell className="font-mono text-xs">{entry.ipAddress ?? "—"}</TableCell>}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,26 @@
+import type { AppContext } from "@/worker";
+
+// Shown on every page while a SUPERUSER is viewing the site as someone else.
+// A plain form, since server functions are refused while impersonating.
+export function ImpersonationBanner({ ctx }: { ctx?: AppContext }) {
+  if (!ctx?.impersonator || !ctx.user) return null;
+
+  const expiresAt = ctx.session?.impersonationExpiresAt;
+
+  return (
+    <div
+      role="alert"
+      className="sticky top-0 z-50 flex flex-wrap items-center justify-center gap-3 bg-amber-400 px-4 py-2 text-sm font-medium text-black"
+    >
+      <span>
+        Viewing as <strong>{ctx.user.username}</strong> (read-only).
+        {expiresAt && ` Ends automatically at ${new Date(expiresAt).toLocaleTimeString()}.`}
+      </span>
+      <form method="post" action="/superuser/impersonation/stop">
+        <button type="submit" className="rounded bg-black px-3 py-1 text-white hover:bg-gray-800">
+          Stop viewing as {ctx.user.username}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toggleKudos, getKudosGivers } from "@/app/pages/posts/functions";
+import type { FeedAuthor } from "@/app/pages/posts/feed";
+import { Popover, PopoverContent, PopoverTrigger } from "@/app/components/ui/popover";
+import { link } from "@/app/shared/links";
+
+// 👍 toggles the viewer's kudos straight away and settles once the server
+// answers; the count opens a list of who gave kudos
+export function KudosButton({
+  postId,
+  count,
+  given,
+  signedIn,
+}: {
+  postId: string;
+  count: number;
+  given: boolean;
+  signedIn: boolean;
+}) {
+  const [state, setState] = useState({ count, given });
+  const [isPending, startTransition] = useTransition();
+  const [givers, setGivers] = useState<FeedAuthor[] | null>(null);
+  const [giversError, setGiversError] = useState(false);
+
+  const handleToggle = async () => {
+    const previous = state;
+    setState({
+      given: !previous.given,
+      count: previous.count + (previous.given ? -1 : 1),
+    });
+
+    const result = await toggleKudos(postId);
+    if (result.success && result.count !== undefined) {
+      setState({ given: !!result.given, count: result.count });
+      // The list is stale now; reload it next time it opens
+      setGivers(null);
+    } else {
+      setState(previous);
+    }
+  };
+
+  const handleOpen = async (open: boolean) => {
+    if (!open || givers) return;
+
+    const result = await getKudosGivers(postId);
+    setGiversError(!result);
+    setGivers(result ?? []);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {signedIn ? (
+        <button
+          type="button"
+          onClick={() => startTransition(() => void handleToggle())}
+          disabled={isPending}
+          aria-pressed={state.given}
+          aria-label={state.given ? "Take back kudos" : "Give kudos"}
+          className={`transition-transform hover:scale-110 ${state.given ? "" : "grayscale opacity-70"}`}
+        >
+          👍
+        </button>
+      ) : (
+        <a href={link("/user/login")} aria-label="Log in to give kudos" className="grayscale opacity-70">
+          👍
+        </a>
+      )}
+      <Popover onOpenChange={(open) => void handleOpen(open)}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className={`hover:underline ${state.given ? "text-blue-600 font-medium" : ""}`}
+            aria-label={`${state.count} kudos, show who gave them`}
+          >
+            {state.count}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64">
+          <p className="mb-2 text-sm font-medium">Kudos</p>
+          {!givers ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : giversError ? (
+            <p className="text-sm text-red-600">Couldn't load kudos.</p>
+          ) : givers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No kudos yet.</p>
+          ) : (
+            <ul className="max-h-64 space-y-1 overflow-y-auto text-sm">
+              {givers.map((giver, index) => (
+                <li key={giver.username ?? `deleted-${index}`}>
+                  {giver.username ? (
+                    <a
+                      href={link("/user/:username/profile", { username: giver.username })}
+                      className="hover:underline"
+                    >
+                      {giver.name}
+                    </a>
+                  ) : (
+                    <span className="text-muted-foreground">{giver.name}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -1,20 +1,39 @@
 import React from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/app/components/ui/avatar";
+import { link } from "@/app/shared/links";
+import { KudosButton } from "./KudosButton";
 
 export type PostCardProps = {
+  id: string;
   user: {
+    // Null when the author's account has been deleted
+    username: string | null;
     name: string;
-    avatarUrl: string;
+    avatarUrl: string | null;
   };
   title: string;
   content: string;
   publishedAt: string;
   imageUrl?: string;
-  category?: string;
+  category?: { slug: string; label: string } | null;
   kudos?: number;
+  hasGivenKudos?: boolean;
+  // Signed-out viewers see kudos but are sent to log in to give them
+  signedIn?: boolean;
   comments?: number;
 };
 
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
 export function PostCard({
+  id,
   user,
   title,
   content,
@@ -22,6 +41,8 @@ export function PostCard({
   imageUrl,
   category,
   kudos = 0,
+  hasGivenKudos = false,
+  signedIn = false,
   comments = 0,
 }: PostCardProps) {
   const formatDate = (dateString: string) => {
@@ -39,28 +60,50 @@ export function PostCard({
     <article className="bg-bg rounded-xl border border-gray-200 shadow-sm mb-6 overflow-hidden hover:shadow-md transition-shadow">
       {/* Post Header */}
       <div className="flex items-center p-4 border-b border-gray-100">
-        <div className="w-11 h-11 bg-gradient-to-br from-blue-400 to-blue-600 rounded-full flex items-center justify-center text-white font-bold mr-3">
-          {user.name.split(' ').map(n => n[0]).join('')}
-        </div>
+        <Avatar className="w-11 h-11 mr-3">
+          {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt={user.name} />}
+          <AvatarFallback className="bg-gradient-to-br from-blue-400 to-blue-600 text-white font-bold">
+            {initials(user.name)}
+          </AvatarFallback>
+        </Avatar>
         <div className="flex-1">
-          <div className="font-semibold text-gray-900">{user.name}</div>
-          <div className="text-sm text-gray-500">{formatDate(publishedAt)}</div>
+          <div className="font-semibold text-gray-900">
+            {user.username ? (
+              <a href={link("/user/:username/profile", { username: user.username })} className="hover:underline">
+                {user.name}
+              </a>
+            ) : (
+              <span className="text-gray-500">{user.name}</span>
+            )}
+          </div>
+          <time
+            dateTime={publishedAt}
+            title={new Date(publishedAt).toLocaleString()}
+            className="text-sm text-gray-500"
+          >
+            {formatDate(publishedAt)}
+          </time>
         </div>
         <div className="flex items-center gap-4 text-sm text-gray-500">
-          <button className="flex items-center gap-1 hover:text-blue-600 transition-colors">
-            <span>👍</span>
-            <span>{kudos}</span>
-          </button>
-          <button className="flex items-center gap-1 hover:text-blue-600 transition-colors">
+          <KudosButton postId={id} count={kudos} given={hasGivenKudos} signedIn={signedIn} />
+          <a
+            href={`${link("/posts/:postId", { postId: id })}#comments`}
+            className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+            aria-label={`${comments} comments`}
+          >
             <span>💬</span>
             <span>{comments}</span>
-          </button>
+          </a>
         </div>
       </div>
 
       {/* Post Content */}
       <div className="p-6">
-        <h2 className="text-xl font-bold text-gray-900 mb-3 leading-tight">{title}</h2>
+        <h2 className="text-xl font-bold text-gray-900 mb-3 leading-tight">
+          <a href={link("/posts/:postId", { postId: id })} className="hover:underline">
+            {title}
+          </a>
+        </h2>
         <div className="text-gray-700 leading-relaxed whitespace-pre-line mb-4">{content}</div>
 
         {imageUrl && (
@@ -75,9 +118,12 @@ export function PostCard({
 
         {category && (
           <div className="flex items-center gap-2">
-            <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-              {category}
-            </span>
+            <a
+              href={`${signedIn ? link("/home") : link("/")}?category=${encodeURIComponent(category.slug)}`}
+              className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:bg-blue-200"
+            >
+              {category.label}
+            </a>
           </div>
         )}
       </div>
@@ -85,14 +131,13 @@ export function PostCard({
       {/* Post Actions */}
       <div className="px-6 pb-4 flex items-center justify-between border-t border-gray-100 pt-4">
         <div className="flex items-center gap-4">
-          <button className="flex items-center gap-2 text-sm text-gray-600 hover:text-blue-600 transition-colors">
-            <span>👍</span>
-            <span>Like</span>
-          </button>
-          <button className="flex items-center gap-2 text-sm text-gray-600 hover:text-blue-600 transition-colors">
+          <a
+            href={`${link("/posts/:postId", { postId: id })}#comments`}
+            className="flex items-center gap-2 text-sm text-gray-600 hover:text-blue-600 transition-colors"
+          >
             <span>💬</span>
             <span>Comment</span>
-          </button>
+          </a>
           <button className="flex items-center gap-2 text-sm text-gray-600 hover:text-blue-600 transition-colors">
             <span>📤</span>
             <span>Share</span>
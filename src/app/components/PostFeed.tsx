@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import { PostCard } from "./PostCard";
+import { Button } from "@/app/components/ui/button";
+import { loadMorePosts } from "@/app/pages/posts/functions";
+import type { FeedPost } from "@/app/pages/posts/feed";
+
+export function PostFeed({
+  initialPosts,
+  initialCursor,
+  category,
+  signedIn,
+}: {
+  initialPosts: FeedPost[];
+  initialCursor: string | null;
+  category?: string;
+  signedIn: boolean;
+}) {
+  const [posts, setPosts] = useState(initialPosts);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [error, setError] = useState("");
+  const [isPending, startTransition] = useTransition();
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  const handleLoadMore = async () => {
+    if (!cursor) return;
+
+    const page = await loadMorePosts(cursor, category);
+    if (!page) {
+      setError("Couldn't load more posts. Please try again.");
+      return;
+    }
+
+    setError("");
+    // A post can slip onto two pages if it's published mid-scroll
+    setPosts((current) => [
+      ...current,
+      ...page.posts.filter((post) => !current.some((existing) => existing.id === post.id)),
+    ]);
+    setCursor(page.nextCursor);
+  };
+
+  // Load the next page as the end of the feed scrolls into view; the button
+  // stays as a fallback and after an error
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !cursor || error || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isPending) {
+        startTransition(() => handleLoadMore());
+      }
+    }, { rootMargin: "400px" });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [cursor, error, isPending]);
+
+  return (
+    <div className="space-y-6">
+      {posts.map((post) => (
+        <PostCard
+          key={post.id}
+          id={post.id}
+          user={post.author}
+          title={post.title}
+          content={post.content}
+          publishedAt={post.publishedAt}
+          category={post.category}
+          comments={post.comments}
+          kudos={post.kudos}
+          hasGivenKudos={post.hasGivenKudos}
+          signedIn={signedIn}
+        />
+      ))}
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-100 text-red-800">{error}</div>
+      )}
+
+      {cursor ? (
+        <div ref={sentinel} className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => startTransition(() => handleLoadMore())}
+            disabled={isPending}
+          >
+            {isPending ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-center text-sm text-gray-500">You're all caught up</p>
+      )}
+    </div>
+  );
+}
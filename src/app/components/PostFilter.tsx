@@ -1,30 +1,58 @@
 "use client";
 
-import { useState } from "react";
+export type PostFilterOption = {
+  slug: string;
+  label: string;
+  count: number;
+};
 
-export function PostFilter() {
-  const [selectedFilter, setSelectedFilter] = useState("all");
+const EMOJI: Record<string, string> = {
+  event: "📅",
+  news: "📰",
+  training: "🏃",
+  social: "👥",
+};
 
-  const filterOptions = [
-    { value: "all", label: "All posts", emoji: "📝" },
-    { value: "events", label: "Events", emoji: "📅" },
-    { value: "news", label: "News", emoji: "📰" },
-    { value: "training", label: "Training", emoji: "🏃" },
-    { value: "social", label: "Social", emoji: "👥" }
-  ];
+// The selected category lives in the URL (?category=training) so the server
+// renders the filtered feed and filtered views can be linked to
+export function PostFilter({
+  categories,
+  total,
+  selected,
+}: {
+  categories: PostFilterOption[];
+  total: number;
+  selected?: string;
+}) {
+  const handleChange = (category: string) => {
+    const url = new URL(window.location.href);
+    if (category) {
+      url.searchParams.set("category", category);
+    } else {
+      url.searchParams.delete("category");
+    }
+    window.location.href = url.toString();
+  };
 
-  const selectedOption = filterOptions.find(option => option.value === selectedFilter);
+  // Keep an unknown category from the URL visible rather than silently
+  // showing it as "All posts"
+  const options =
+    selected && !categories.some((category) => category.slug === selected)
+      ? [...categories, { slug: selected, label: selected, count: 0 }]
+      : categories;
 
   return (
     <div className="relative">
       <select
-        value={selectedFilter}
-        onChange={(e) => setSelectedFilter(e.target.value)}
+        aria-label="Filter posts by category"
+        value={selected ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
         className="appearance-none bg-white border border-gray-300 rounded-lg px-4 py-2.5 pr-10 text-sm font-medium text-gray-700 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors cursor-pointer"
       >
-        {filterOptions.map((option) => (
-          <option key={option.value} value={option.value}>
-            {option.emoji} {option.label}
+        <option value="">📝 All posts ({total})</option>
+        {options.map((option) => (
+          <option key={option.slug} value={option.slug}>
+            {EMOJI[option.slug] ?? "🏷️"} {option.label} ({option.count})
           </option>
         ))}
       </select>
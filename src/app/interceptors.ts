@@ -1,5 +1,7 @@
 import { AppContext } from "@/worker";
 import { db } from "@/db";
+import { can } from "@/app/auth/authorization";
+import type { Permission } from "@/app/auth/permissions";
 
 // Authentication interceptor
 export const isAuthenticated = ({ ctx }: { ctx: AppContext }) => {
@@ -27,54 +29,12 @@ export const isSuperUser = ({ ctx }: { ctx: AppContext }) => {
   }
 };
 
-// Organization role checking function
-async function checkOrganizationRole(
-  userId: string, 
-  organizationId: string, 
-  requiredRoles: string[]
-): Promise<boolean> {
-  const membership = await db.organizationMembership.findFirst({
-    where: {
-      userId,
-      organizationId,
-      role: { in: requiredRoles }
-    }
-  });
-  
-  return !!membership;
-}
-
-// Organization Admin interceptor
-export function requireOrganizationAdmin(organizationIdParam: string = "organizationId") {
-  return async ({ ctx, params }: { ctx: AppContext; params: any }) => {
-    if (!ctx.user) {
-      return new Response(null, {
-        status: 302,
-        headers: { Location: "/user/login" },
-      });
-    }
-
-    const organizationId = params[organizationIdParam];
-    if (!organizationId) {
-      return new Response("Organization ID required", { status: 400 });
-    }
-
-    const hasAccess = await checkOrganizationRole(
-      ctx.user.id, 
-      organizationId, 
-      ["ADMIN"]
-    );
-
-    if (!hasAccess) {
-      return new Response("Access Denied: Organization Admin role required", { 
-        status: 403 
-      });
-    }
-  };
-}
-
-// Organization Coach interceptor (includes Admin permissions)
-export function requireOrganizationCoach(organizationIdParam: string = "organizationId") {
+// Organization permission interceptor. The organization comes from the
+// route params; what each role may do is set out in @/app/auth/permissions.
+export function requireOrganizationPermission(
+  permission: Permission,
+  organizationIdParam: string = "organizationId"
+) {
   return async ({ ctx, params }: { ctx: AppContext; params: any }) => {
     if (!ctx.user) {
       return new Response(null, {
@@ -88,44 +48,9 @@ export function requireOrganizationCoach(organizationIdParam: string = "organiza
       return new Response("Organization ID required", { status: 400 });
     }
 
-    const hasAccess = await checkOrganizationRole(
-      ctx.user.id, 
-      organizationId, 
-      ["ADMIN", "COACH"]
-    );
-
-    if (!hasAccess) {
-      return new Response("Access Denied: Organization Coach role required", { 
-        status: 403 
-      });
-    }
-  };
-}
-
-// Organization Member interceptor (includes Admin and Coach permissions)
-export function requireOrganizationMember(organizationIdParam: string = "organizationId") {
-  return async ({ ctx, params }: { ctx: AppContext; params: any }) => {
-    if (!ctx.user) {
-      return new Response(null, {
-        status: 302,
-        headers: { Location: "/user/login" },
-      });
-    }
-
-    const organizationId = params[organizationIdParam];
-    if (!organizationId) {
-      return new Response("Organization ID required", { status: 400 });
-    }
-
-    const hasAccess = await checkOrganizationRole(
-      ctx.user.id, 
-      organizationId, 
-      ["ADMIN", "COACH", "MEMBER"]
-    );
-
-    if (!hasAccess) {
-      return new Response("Access Denied: Organization membership required", { 
-        status: 403 
+    if (!(await can(ctx.user, permission, organizationId))) {
+      return new Response(`Access Denied: ${permission} permission required`, {
+        status: 403
       });
     }
   };
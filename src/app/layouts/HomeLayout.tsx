@@ -25,6 +25,16 @@ const HomeLayout = ({ ctx, children }: RequestInfo & { children: React.ReactNode
                   Tasks
                 </a>
               </li>
+              <li>
+                <a href={link('/posts/mine')} className="text-white hover:underline">
+                  My Posts
+                </a>
+              </li>
+              <li>
+                <a href={link('/org')} className="text-white hover:underline">
+                  Clubs
+                </a>
+              </li>
               <li>
                 <a
                   href={link('/user/:username/profile', { username: ctx.user.username })}
@@ -82,6 +82,8 @@ describe('HomeLayout Component', () => {
       // Check authenticated navigation links by exact text
       expect(screen.getByRole('link', { name: 'Test' })).toBeInTheDocument()
       expect(screen.getByRole('link', { name: 'Tasks' })).toBeInTheDocument()
+      expect(screen.getByRole('link', { name: 'My Posts' })).toBeInTheDocument()
+      expect(screen.getByRole('link', { name: 'Clubs' })).toBeInTheDocument()
       expect(screen.getByRole('link', { name: 'Profile' })).toBeInTheDocument()
       expect(screen.getByRole('link', { name: 'Settings' })).toBeInTheDocument()
       expect(screen.getByRole('link', { name: 'Logout' })).toBeInTheDocument()
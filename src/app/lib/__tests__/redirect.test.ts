@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { getSafeRedirect, withNext } from '../redirect'
+
+describe('Post-login redirects', () => {
+  describe('getSafeRedirect', () => {
+    it('should allow same-origin paths', () => {
+      expect(getSafeRedirect('/invite/abc123', '/home')).toBe('/invite/abc123')
+      expect(getSafeRedirect('/user/sam/settings?tab=security', '/home')).toBe('/user/sam/settings?tab=security')
+    })
+
+    it('should fall back when next is missing', () => {
+      expect(getSafeRedirect(null, '/home')).toBe('/home')
+      expect(getSafeRedirect('', '/home')).toBe('/home')
+    })
+
+    it('should reject other origins', () => {
+      for (const next of ['https://evil.example', '//evil.example', '/\\evil.example', 'javascript:alert(1)']) {
+        expect(getSafeRedirect(next, '/home')).toBe('/home')
+      }
+    })
+
+    it('should reject paths the browser would turn into another origin by stripping whitespace', () => {
+      for (const next of ['/\t/evil.example', '/\n/evil.example', '/\r/evil.example', '/ /evil.example']) {
+        expect(getSafeRedirect(next, '/home')).toBe('/home')
+      }
+      // `?next=/%09/evil.example` arrives decoded as "/\t/evil.example"
+      const next = new URLSearchParams('next=/%09/evil.example').get('next')
+      expect(getSafeRedirect(next, '/home')).toBe('/home')
+    })
+  })
+
+  describe('withNext', () => {
+    it('should append an encoded next parameter', () => {
+      expect(withNext('/user/login', '/invite/abc')).toBe('/user/login?next=%2Finvite%2Fabc')
+      expect(withNext('/user/signup?email=a%40b.c', '/invite/abc')).toBe('/user/signup?email=a%40b.c&next=%2Finvite%2Fabc')
+    })
+
+    it('should leave the link alone for unsafe or missing next', () => {
+      expect(withNext('/user/login', '//evil.example')).toBe('/user/login')
+      expect(withNext('/user/login', '/\t/evil.example')).toBe('/user/login')
+      expect(withNext('/user/login', null)).toBe('/user/login')
+    })
+  })
+})
@@ -0,0 +1,26 @@
+// Human-readable device description from a user agent, e.g. "Chrome on Desktop"
+export function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return 'Unknown Device';
+
+  // Extract device info from user agent
+  const isMobile = /Mobile|Android|iPhone|iPad/i.test(userAgent);
+  const deviceType = isMobile ? 'Mobile' : 'Desktop';
+
+  // Try to extract browser name
+  let browserName = 'Browser';
+  if (/Chrome/i.test(userAgent) && !/Chromium|Edge/i.test(userAgent)) browserName = 'Chrome';
+  else if (/Firefox/i.test(userAgent)) browserName = 'Firefox';
+  else if (/Safari/i.test(userAgent) && !/Chrome|Chromium|Edge/i.test(userAgent)) browserName = 'Safari';
+  else if (/Edge|Edg/i.test(userAgent)) browserName = 'Edge';
+
+  return `${browserName} on ${deviceType}`;
+}
+
+// Client IP as reported by Cloudflare, falling back to proxy headers
+export function getClientIp(request: Request) {
+  return (
+    request.headers.get('cf-connecting-ip') ??
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ??
+    'unknown'
+  );
+}
@@ -0,0 +1,31 @@
+// Only used to resolve `next` when checking it; never part of the result
+const BASE_ORIGIN = 'http://redirect.invalid';
+
+// Where to send the user after login or signup, taken from `?next=`. Only
+// same-origin paths are allowed so the parameter can't be used as an open
+// redirect. Browsers drop tabs and newlines from URLs ("/\t/evil.example"
+// becomes "//evil.example"), so anything with whitespace or control
+// characters is refused before the path is resolved and its origin checked.
+export function getSafeRedirect(next: string | null | undefined, fallback: string) {
+  if (!next || !next.startsWith('/') || /[\s\u0000-\u001f\u007f]/.test(next)) {
+    return fallback;
+  }
+  try {
+    if (new URL(next, BASE_ORIGIN).origin !== BASE_ORIGIN) return fallback;
+  } catch {
+    return fallback;
+  }
+  return next;
+}
+
+// Read and validate `?next=` from the current page's URL
+export function getNextFromLocation(fallback: string) {
+  return getSafeRedirect(new URLSearchParams(window.location.search).get('next'), fallback);
+}
+
+// Append `next` to a link so the following page can send the user back
+export function withNext(href: string, next: string | null | undefined) {
+  const safeNext = getSafeRedirect(next, '');
+  if (!safeNext) return href;
+  return `${href}${href.includes('?') ? '&' : '?'}next=${encodeURIComponent(safeNext)}`;
+}
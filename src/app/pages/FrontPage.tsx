@@ -2,12 +2,15 @@ import { HomeLayout } from "@/app/layouts/HomeLayout";
 import { RequestInfo } from "rwsdk/worker";
 import { ReactNode } from "react";
 import { PostList } from "@/app/components/PostList";
+import { parseCategoryParam } from "@/app/pages/posts/categories";
 
 export function FrontPage(props: RequestInfo & { children?: ReactNode }) {
+  const category = parseCategoryParam(new URL(props.request.url));
+
   return (
     <HomeLayout {...props}>
       {/* Latest Posts listing for not-logged-in viewers */}
-      <PostList />
+      <PostList category={category} viewerId={props.ctx.user?.id} />
     </HomeLayout>
   );
 }
@@ -5,8 +5,13 @@ import { PostList } from "@/app/components/PostList";
 import { UserProfileSidebar } from "@/app/components/UserProfileSidebar";
 import { AddContentButton } from "@/app/components/AddContentButton";
 import { PostFilter } from "@/app/components/PostFilter";
+import { parseCategoryParam } from "@/app/pages/posts/categories";
+import { getFeedCategoryCounts } from "@/app/pages/posts/postCategories";
+
+export async function Home(props: RequestInfo & { children?: ReactNode }) {
+  const category = parseCategoryParam(new URL(props.request.url));
+  const { total, categories } = await getFeedCategoryCounts();
 
-export function Home(props: RequestInfo & { children?: ReactNode }) {
   return (
     <HomeLayout {...props}>
       <div className="min-h-screen bg-gray-50">
@@ -25,13 +30,13 @@ export function Home(props: RequestInfo & { children?: ReactNode }) {
               <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
                 <div className="flex items-center gap-4">
                   <h1 className="text-2xl font-bold text-gray-900">Community Feed</h1>
-                  <PostFilter />
+                  <PostFilter categories={categories} total={total} selected={category} />
                 </div>
                 <AddContentButton />
               </div>
 
               {/* Posts Feed */}
-              <PostList />
+              <PostList category={category} viewerId={props.ctx.user?.id} />
             </div>
           </div>
         </div>
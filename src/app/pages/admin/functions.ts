@@ -1,11 +0,0 @@
-"use server";
-
-// Admin functions will be implemented here when we start working on organization-level admin functionality
-// This is for organization admins to manage their organization members, not system-level organization management
-
-// Placeholder for future admin functionality
-export async function placeholder() {
-  // This file is reserved for organization-level admin functions
-  // Examples: manage organization members, assign roles within organization, etc.
-  return null;
-}
@@ -0,0 +1,64 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/app/components/ui/table";
+import { listOutboxEmails } from "@/email/outbox";
+
+// Emails captured by the outbox transport, newest first
+export default async function Outbox() {
+  const emails = await listOutboxEmails();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Email Outbox</CardTitle>
+            <CardDescription>
+              Emails captured instead of being sent. Only available in development.
+            </CardDescription>
+          </div>
+          <form method="post" action="/dev/outbox/clear">
+            <Button type="submit" variant="outline" size="sm">
+              Clear outbox
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          {emails.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No emails yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Received</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {emails.map((email) => (
+                  <TableRow key={email.id}>
+                    <TableCell>{email.to}</TableCell>
+                    <TableCell>
+                      <a href={`/dev/outbox/${email.id}`} className="underline underline-offset-4">
+                        {email.subject}
+                      </a>
+                    </TableCell>
+                    <TableCell>{email.createdAt.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { route } from "rwsdk/router";
+import { IS_DEV } from "rwsdk/constants";
+import { clearOutbox, getOutboxEmail } from "@/email/outbox";
+import { escapeHtml } from "@/email/html";
+import Outbox from "./Outbox";
+
+// Development tools; these routes don't exist in production builds
+const isDevelopment = () => {
+  if (!IS_DEV) {
+    return new Response("Not Found", { status: 404 });
+  }
+};
+
+export const devRoutes = [
+  route("/outbox", [isDevelopment, Outbox]),
+
+  route("/outbox/clear", [isDevelopment, async ({ request }) => {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    await clearOutbox();
+    return new Response(null, {
+      status: 303,
+      headers: { Location: "/dev/outbox" },
+    });
+  }]),
+
+  // The email exactly as a mail client would render it
+  route("/outbox/:id", [isDevelopment, async ({ params }) => {
+    const email = await getOutboxEmail(params.id);
+
+    if (!email) {
+      return new Response("Email not found", { status: 404 });
+    }
+
+    const header = `<div style="font-family: monospace; padding: 12px; background: #f3f4f6; border-bottom: 1px solid #e5e7eb;">
+      <a href="/dev/outbox">&larr; Outbox</a><br>
+      From: ${escapeHtml(email.from)}<br>
+      To: ${escapeHtml(email.to)}<br>
+      Subject: ${escapeHtml(email.subject)}
+    </div>`;
+
+    return new Response(header + email.html, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }]),
+];
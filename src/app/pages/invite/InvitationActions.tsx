@@ -0,0 +1,102 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { acceptInvitationForCurrentUser, declineInvitation } from "./functions";
+import { resendVerificationEmail } from "@/app/pages/user/functions";
+import { Button } from "@/app/components/ui/button";
+import { link } from "@/app/shared/links";
+
+export function InvitationActions({
+  token,
+  organizationId,
+  canAccept,
+  needsVerification = false,
+}: {
+  token: string;
+  organizationId: string;
+  canAccept: boolean;
+  needsVerification?: boolean;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+  const [declined, setDeclined] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
+
+  const handleAccept = async () => {
+    const result = await acceptInvitationForCurrentUser(token);
+    if (result.success) {
+      window.location.href = link("/org/:organizationId", { organizationId });
+    } else {
+      setResult("Failed to accept invitation: " + result.error);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    const result = await resendVerificationEmail();
+    if (result.success) {
+      setVerificationSent(true);
+      setResult("");
+    } else {
+      setResult("Failed to send verification email: " + result.error);
+    }
+  };
+
+  const handleDecline = async () => {
+    const result = await declineInvitation(token);
+    if (result.success) {
+      setDeclined(true);
+      setResult("");
+    } else {
+      setResult("Failed to decline invitation: " + result.error);
+    }
+  };
+
+  if (declined) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You've declined this invitation.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {needsVerification && (
+        <p className="text-sm text-muted-foreground">
+          {verificationSent
+            ? "Verification email sent. Follow the link in it, then come back here to accept."
+            : "Verify your email address before accepting this invitation."}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        {needsVerification ? (
+          <Button
+            onClick={() => startTransition(() => void handleResendVerification())}
+            disabled={isPending || verificationSent}
+          >
+            {isPending ? "Working..." : "Resend verification email"}
+          </Button>
+        ) : canAccept && (
+          <Button
+            onClick={() => startTransition(() => void handleAccept())}
+            disabled={isPending}
+          >
+            {isPending ? "Working..." : "Accept invitation"}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => startTransition(() => void handleDecline())}
+          disabled={isPending}
+        >
+          Decline
+        </Button>
+      </div>
+
+      {result && (
+        <div className="p-3 rounded-md bg-red-100 text-red-800">{result}</div>
+      )}
+    </div>
+  );
+}
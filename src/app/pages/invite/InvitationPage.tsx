@@ -0,0 +1,106 @@
+import { RequestInfo } from "rwsdk/worker";
+import { AuthLayout } from "@/app/layouts/AuthLayout";
+import { Badge } from "@/app/components/ui/badge";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { link } from "@/app/shared/links";
+import { withNext } from "@/app/lib/redirect";
+import { db } from "@/db";
+import { expireStaleInvitations, getInvitationStatus, isInvitedAddress } from "@/app/pages/superuser/organizations";
+import { InvitationActions } from "./InvitationActions";
+
+const STATUS_MESSAGES: Record<string, string> = {
+  ACCEPTED: "This invitation has already been accepted.",
+  REJECTED: "This invitation was declined.",
+  EXPIRED: "This invitation has expired. Ask an organization admin to send a new one.",
+};
+
+// Landing page for the link in an invitation email. Signed-out visitors are
+// sent through login or signup and brought back here to accept.
+export default async function InvitationPage({ params, ctx }: RequestInfo) {
+  const token = params.token;
+  await expireStaleInvitations({ token });
+  const invitation = await db.organizationInvitation.findUnique({
+    where: { token },
+    include: { organization: { select: { name: true, description: true } } },
+  });
+
+  const invitePath = link("/invite/:token", { token });
+  const user = ctx.user;
+  const status = invitation && getInvitationStatus(invitation);
+  const canAccept = !!invitation && isInvitedAddress(user?.email, invitation.email);
+  const needsVerification = canAccept && !user?.emailVerifiedAt;
+
+  return (
+    <AuthLayout>
+      <div className="flex min-h-[calc(100vh-96px)] items-center justify-center bg-bg">
+        <Card className="w-full max-w-md sm:p-4 shadow-lg bg-background/60">
+          {!invitation ? (
+            <CardHeader>
+              <CardTitle>Invitation Not Found</CardTitle>
+              <CardDescription>
+                This invitation link is invalid. Check that you copied the whole link.
+              </CardDescription>
+            </CardHeader>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>Join {invitation.organization.name}</CardTitle>
+                <CardDescription>
+                  You've been invited to join as{" "}
+                  <Badge variant="secondary">{invitation.role}</Badge>
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {invitation.organization.description && (
+                  <p className="text-sm text-muted-foreground">
+                    {invitation.organization.description}
+                  </p>
+                )}
+
+                {status !== "PENDING" ? (
+                  <p className="text-sm">{(status && STATUS_MESSAGES[status]) ?? "This invitation is no longer valid."}</p>
+                ) : user ? (
+                  <>
+                    {canAccept ? (
+                      <InvitationActions
+                        token={token}
+                        organizationId={invitation.organizationId}
+                        canAccept
+                        needsVerification={needsVerification}
+                      />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        This invitation was sent to {invitation.email}, but
+                        you're signed in as {user.username}. Sign in with
+                        that address to accept or decline it.
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm">
+                      Sign in or create an account to accept. The invitation was
+                      sent to {invitation.email}.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button asChild>
+                        <a href={withNext(link("/user/login"), invitePath)}>Log in</a>
+                      </Button>
+                      <Button variant="outline" asChild>
+                        <a href={withNext(`${link("/user/signup")}?email=${encodeURIComponent(invitation.email)}`, invitePath)}>
+                          Create account
+                        </a>
+                      </Button>
+                    </div>
+                    <InvitationActions token={token} organizationId={invitation.organizationId} canAccept={false} />
+                  </>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </AuthLayout>
+  );
+}
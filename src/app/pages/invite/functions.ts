@@ -0,0 +1,17 @@
+"use server";
+
+import { requestInfo } from "rwsdk/worker";
+import { requireUser } from "@/app/auth/authorization";
+import { acceptInvitation, rejectInvitation } from "@/app/pages/superuser/organizations";
+
+// Accept as whoever is signed in; the user ID never comes from the client
+export async function acceptInvitationForCurrentUser(token: string) {
+  const user = requireUser();
+  return acceptInvitation(token, user.id);
+}
+
+// Anyone holding the link may decline while signed out; signed in, only
+// the invited address may
+export async function declineInvitation(token: string) {
+  return rejectInvitation(token, requestInfo.ctx.user);
+}
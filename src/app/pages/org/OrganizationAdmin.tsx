@@ -0,0 +1,87 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { getOrganization } from "@/app/pages/superuser/organizations";
+import { getUserOrganizationRole } from "@/app/interceptors";
+import { getOrganizationPermissions } from "@/app/auth/authorization";
+import { OrganizationHeader } from "./OrganizationHeader";
+import { OrganizationDetailsForm } from "./components/OrganizationDetailsForm";
+import { MemberTable } from "./components/MemberTable";
+import { InvitationManager } from "./components/InvitationManager";
+import { CategoryManager } from "./components/CategoryManager";
+import { db } from "@/db";
+import { toInvitationSummaries, toMemberSummaries } from "./summaries";
+
+// Club admin console; guarded by the organization.manage permission
+export default async function OrganizationAdmin(props: RequestInfo) {
+  const { organizationId } = props.params;
+  const organization = await getOrganization(organizationId);
+
+  if (!organization) {
+    return new Response("Organization not found", { status: 404 });
+  }
+
+  const role = await getUserOrganizationRole(props.ctx.user!.id, organizationId);
+  const permissions = await getOrganizationPermissions(props.ctx.user, organizationId);
+  const categories = await db.organizationCategory.findMany({
+    where: { organizationId },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true },
+  });
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <OrganizationHeader organization={organization} role={role} permissions={permissions} current="admin" />
+
+        <OrganizationDetailsForm
+          organization={{
+            id: organization.id,
+            name: organization.name,
+            description: organization.description,
+          }}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>Change roles or remove people from the club</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MemberTable
+              organizationId={organizationId}
+              members={toMemberSummaries(organization)}
+              currentUserId={props.ctx.user!.id}
+              editable={permissions.includes("member.manage")}
+            />
+          </CardContent>
+        </Card>
+
+        {permissions.includes("member.invite") && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitations</CardTitle>
+              <CardDescription>Invite people by email; links expire after 7 days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InvitationManager
+                organizationId={organizationId}
+                invitations={toInvitationSummaries(organization)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Post Categories</CardTitle>
+            <CardDescription>Extra categories members can file posts under and filter the feed by</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryManager organizationId={organizationId} categories={categories} />
+          </CardContent>
+        </Card>
+      </div>
+    </HomeLayout>
+  );
+}
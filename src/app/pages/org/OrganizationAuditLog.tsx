@@ -0,0 +1,72 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { AuditLogTable } from "@/app/components/AuditLogTable";
+import { link } from "@/app/shared/links";
+import { db } from "@/db";
+import { AUDIT_PAGE_SIZE, listAuditLogs, parseAuditLogFilters } from "@/audit/query";
+import { getUserOrganizationRole } from "@/app/interceptors";
+import { getOrganizationPermissions } from "@/app/auth/authorization";
+import { OrganizationHeader } from "./OrganizationHeader";
+
+// Changes within one club; guarded by the audit.view permission
+export default async function OrganizationAuditLog(props: RequestInfo) {
+  const { organizationId } = props.params;
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { id: true, name: true }
+  });
+
+  if (!organization) {
+    return new Response("Organization not found", { status: 404 });
+  }
+
+  const role = await getUserOrganizationRole(props.ctx.user!.id, organizationId);
+  const permissions = await getOrganizationPermissions(props.ctx.user, organizationId);
+
+  // Always scoped to this organization, whatever the query string says
+  const url = new URL(props.request.url);
+  const { page } = parseAuditLogFilters(url);
+  const { total, entries } = await listAuditLogs({ organizationId }, page);
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+  const baseHref = link("/org/:organizationId/audit", { organizationId });
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <OrganizationHeader organization={organization} role={role} permissions={permissions} current="audit" />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Activity Log</CardTitle>
+            <CardDescription>
+              Role changes, removals, invitations and edits to the club, newest first
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <AuditLogTable entries={entries} />
+          </CardContent>
+        </Card>
+
+        {pageCount > 1 && (
+          <div className="mt-4 flex items-center justify-between">
+            <p className="text-sm text-gray-600">Page {page} of {pageCount}</p>
+            <div className="flex gap-2">
+              {page > 1 && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`${baseHref}?page=${page - 1}`}>Previous</a>
+                </Button>
+              )}
+              {page < pageCount && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`${baseHref}?page=${page + 1}`}>Next</a>
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </HomeLayout>
+  );
+}
@@ -0,0 +1,51 @@
+import { Badge } from "@/app/components/ui/badge";
+import { link } from "@/app/shared/links";
+import type { Permission } from "@/app/auth/permissions";
+
+// Title and tabs shared by the organization pages; only the tabs the viewer
+// has permission to open are shown
+export function OrganizationHeader({
+  organization,
+  role,
+  permissions,
+  current,
+}: {
+  organization: { id: string; name: string };
+  role: string | null;
+  permissions: Permission[];
+  current: "overview" | "members" | "admin" | "audit";
+}) {
+  const organizationId = organization.id;
+  const tabs = [
+    { key: "overview", label: "Overview", href: link("/org/:organizationId", { organizationId }), show: permissions.includes("organization.view") },
+    { key: "members", label: "Members", href: link("/org/:organizationId/members", { organizationId }), show: permissions.includes("member.view") },
+    { key: "admin", label: "Manage", href: link("/org/:organizationId/admin", { organizationId }), show: permissions.includes("organization.manage") },
+    { key: "audit", label: "Activity Log", href: link("/org/:organizationId/audit", { organizationId }), show: permissions.includes("audit.view") },
+  ];
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center gap-3">
+        <h1 className="text-3xl font-bold text-gray-900">{organization.name}</h1>
+        {role && <Badge variant="secondary">{role}</Badge>}
+      </div>
+      <nav className="mt-4 flex gap-4 border-b">
+        {tabs
+          .filter((tab) => tab.show)
+          .map((tab) => (
+            <a
+              key={tab.key}
+              href={tab.href}
+              className={
+                tab.key === current
+                  ? "border-b-2 border-primary pb-2 font-medium"
+                  : "pb-2 text-gray-600 hover:text-gray-900"
+              }
+            >
+              {tab.label}
+            </a>
+          ))}
+      </nav>
+    </div>
+  );
+}
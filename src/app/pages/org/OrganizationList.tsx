@@ -0,0 +1,45 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Badge } from "@/app/components/ui/badge";
+import { link } from "@/app/shared/links";
+import { getUserOrganizations } from "@/app/pages/superuser/organizations";
+
+export default async function OrganizationList(props: RequestInfo) {
+  const organizations = await getUserOrganizations(props.ctx.user!.id);
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">My Clubs</h1>
+
+        {organizations.length === 0 ? (
+          <p className="text-gray-600">
+            You're not a member of any club yet. Ask a club admin to send you an invitation.
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {organizations.map((organization) => (
+              <a
+                key={organization.id}
+                href={link("/org/:organizationId", { organizationId: organization.id })}
+              >
+                <Card className="hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between gap-2">
+                      {organization.name}
+                      <Badge variant="secondary">{organization.role}</Badge>
+                    </CardTitle>
+                    {organization.description && (
+                      <CardDescription>{organization.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                </Card>
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </HomeLayout>
+  );
+}
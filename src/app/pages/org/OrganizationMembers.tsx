@@ -0,0 +1,44 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { getOrganization } from "@/app/pages/superuser/organizations";
+import { getUserOrganizationRole } from "@/app/interceptors";
+import { getOrganizationPermissions } from "@/app/auth/authorization";
+import { OrganizationHeader } from "./OrganizationHeader";
+import { MemberTable } from "./components/MemberTable";
+import { toMemberSummaries } from "./summaries";
+
+// Roster with contact details for coaches; guarded by the member.view permission
+export default async function OrganizationMembers(props: RequestInfo) {
+  const { organizationId } = props.params;
+  const organization = await getOrganization(organizationId);
+
+  if (!organization) {
+    return new Response("Organization not found", { status: 404 });
+  }
+
+  const role = await getUserOrganizationRole(props.ctx.user!.id, organizationId);
+  const permissions = await getOrganizationPermissions(props.ctx.user, organizationId);
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <OrganizationHeader organization={organization} role={role} permissions={permissions} current="members" />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>{organization.members.length} people in this club</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MemberTable
+              organizationId={organizationId}
+              members={toMemberSummaries(organization)}
+              currentUserId={props.ctx.user!.id}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </HomeLayout>
+  );
+}
@@ -0,0 +1,57 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { getOrganization } from "@/app/pages/superuser/organizations";
+import { getUserOrganizationRole } from "@/app/interceptors";
+import { getOrganizationPermissions } from "@/app/auth/authorization";
+import { OrganizationHeader } from "./OrganizationHeader";
+
+// Visible to every member; guarded by the organization.view permission
+export default async function OrganizationOverview(props: RequestInfo) {
+  const { organizationId } = props.params;
+  const organization = await getOrganization(organizationId);
+
+  if (!organization) {
+    return new Response("Organization not found", { status: 404 });
+  }
+
+  const role = await getUserOrganizationRole(props.ctx.user!.id, organizationId);
+  const permissions = await getOrganizationPermissions(props.ctx.user, organizationId);
+  const counts = organization.members.reduce<Record<string, number>>((acc, member) => {
+    acc[member.role] = (acc[member.role] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <OrganizationHeader organization={organization} role={role} permissions={permissions} current="overview" />
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle>About</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-700 whitespace-pre-line">
+                {organization.description || "No description yet."}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Members</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p><strong>{organization.members.length}</strong> in total</p>
+              <p>{counts.ADMIN ?? 0} admins</p>
+              <p>{counts.COACH ?? 0} coaches</p>
+              <p>{counts.MEMBER ?? 0} sailors</p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </HomeLayout>
+  );
+}
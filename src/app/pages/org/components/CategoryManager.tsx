@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { addOrganizationCategory, removeOrganizationCategory } from "../functions";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+
+// Organization post categories passed down from the admin page
+export type CategorySummary = {
+  id: string;
+  name: string;
+};
+
+export function CategoryManager({
+  organizationId,
+  categories,
+}: {
+  organizationId: string;
+  categories: CategorySummary[];
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+  const [name, setName] = useState("");
+
+  const handleAdd = async () => {
+    const result = await addOrganizationCategory(organizationId, name);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to add category: " + result.error);
+    }
+  };
+
+  const handleRemove = async (categoryId: string) => {
+    const result = await removeOrganizationCategory(organizationId, categoryId);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to remove category: " + result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="flex flex-col gap-4 sm:flex-row sm:items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          startTransition(() => void handleAdd());
+        }}
+      >
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="categoryName">Name</Label>
+          <Input
+            id="categoryName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Night Racing"
+            required
+          />
+        </div>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Adding..." : "Add category"}
+        </Button>
+      </form>
+
+      {categories.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Members can use Event, News, Training and Social. Add your own for club-specific posts.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {categories.map((category) => (
+            <li key={category.id} className="flex items-center justify-between p-3">
+              <p className="font-medium">{category.name}</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => startTransition(() => void handleRemove(category.id))}
+                disabled={isPending}
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result && (
+        <div className="p-3 rounded-md bg-red-100 text-red-800">{result}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { inviteMember, revokeInvitation } from "../functions";
+import { ORGANIZATION_ROLES } from "../roles";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/app/components/ui/select";
+
+// Pending invitation fields passed down from the organization routes
+export type InvitationSummary = {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: string;
+};
+
+export function InvitationManager({
+  organizationId,
+  invitations,
+}: {
+  organizationId: string;
+  invitations: InvitationSummary[];
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<string>("MEMBER");
+
+  const handleInvite = async () => {
+    const result = await inviteMember(organizationId, email, role);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to send invitation: " + result.error);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    const result = await revokeInvitation(organizationId, invitationId);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to revoke invitation: " + result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="flex flex-col gap-4 sm:flex-row sm:items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          startTransition(() => void handleInvite());
+        }}
+      >
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="inviteEmail">Email</Label>
+          <Input
+            id="inviteEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="sailor@example.com"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="inviteRole">Role</Label>
+          <Select value={role} onValueChange={setRole}>
+            <SelectTrigger id="inviteRole" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ORGANIZATION_ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {role}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Sending..." : "Send invitation"}
+        </Button>
+      </form>
+
+      {invitations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No pending invitations.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center justify-between p-3">
+              <div>
+                <p className="font-medium">{invitation.email}</p>
+                <p className="text-sm text-muted-foreground">
+                  {invitation.role} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => startTransition(() => void handleRevoke(invitation.id))}
+                disabled={isPending}
+              >
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result && (
+        <div className="p-3 rounded-md bg-red-100 text-red-800">{result}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { changeMemberRole, removeMember } from "../functions";
+import { ORGANIZATION_ROLES } from "../roles";
+import { Button } from "@/app/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/app/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+// Member fields passed down from the organization routes
+export type MemberSummary = {
+  userId: string;
+  username: string;
+  email: string | null;
+  role: string;
+  joinedAt: string;
+};
+
+export function MemberTable({
+  organizationId,
+  members,
+  currentUserId,
+  editable = false,
+}: {
+  organizationId: string;
+  members: MemberSummary[];
+  currentUserId?: string;
+  editable?: boolean;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+
+  const handleRoleChange = async (userId: string, role: string) => {
+    const result = await changeMemberRole(organizationId, userId, role);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to change role: " + result.error);
+    }
+  };
+
+  const handleRemove = async (member: MemberSummary) => {
+    if (!confirm(`Remove ${member.username} from the organization?`)) return;
+
+    const result = await removeMember(organizationId, member.userId);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to remove member: " + result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {members.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No members yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Joined</TableHead>
+              {editable && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => (
+              <TableRow key={member.userId}>
+                <TableCell className="font-medium">
+                  {member.username}
+                  {member.userId === currentUserId && (
+                    <Badge variant="secondary" className="ml-2">You</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{member.email ?? "—"}</TableCell>
+                <TableCell>
+                  {editable ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) =>
+                        startTransition(() => void handleRoleChange(member.userId, role))
+                      }
+                      disabled={isPending}
+                    >
+                      <SelectTrigger size="sm" aria-label={`Role for ${member.username}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ORGANIZATION_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {role}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">{member.role}</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{new Date(member.joinedAt).toLocaleDateString()}</TableCell>
+                {editable && (
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startTransition(() => void handleRemove(member))}
+                      disabled={isPending}
+                    >
+                      Remove
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {result && (
+        <div className="p-3 rounded-md bg-red-100 text-red-800">{result}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { updateOrganizationDetails } from "../functions";
+import { Button } from "@/app/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/app/components/ui/card";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textarea";
+
+export function OrganizationDetailsForm({
+  organization,
+}: {
+  organization: { id: string; name: string; description: string | null };
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+  const [name, setName] = useState(organization.name);
+  const [description, setDescription] = useState(organization.description ?? "");
+
+  const handleSave = async () => {
+    const result = await updateOrganizationDetails(organization.id, { name, description });
+    setResult(result.success ? "Details saved successfully" : "Failed to save details: " + result.error);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Club Details</CardTitle>
+        <CardDescription>Shown to members and on invitations</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            startTransition(() => void handleSave());
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="organizationName">Name</Label>
+            <Input
+              id="organizationName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="organizationDescription">Description</Label>
+            <Textarea
+              id="organizationDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : "Save"}
+          </Button>
+        </form>
+
+        {result && (
+          <div
+            className={`mt-4 p-3 rounded-md ${
+              result.includes("success") ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+            }`}
+          >
+            {result}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
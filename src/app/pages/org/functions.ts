@@ -0,0 +1,195 @@
+"use server";
+
+import { db } from "@/db";
+import { requirePermission } from "@/app/auth/authorization";
+import {
+  updateOrganization,
+  updateMemberRole,
+  removeMemberFromOrganization,
+  createInvitation,
+  expireStaleInvitations,
+} from "@/app/pages/superuser/organizations";
+import { isOrganizationRole } from "./roles";
+import { recordAudit } from "@/audit/log";
+import {
+  CATEGORY_NAME_MAX_LENGTH,
+  isBuiltInCategory,
+  slugifyCategory,
+} from "@/app/pages/posts/categories";
+
+// Organization console actions. The routes are guarded by the organization
+// interceptors, but server functions can be called directly, so each one
+// checks the caller has the permission in the organization.
+
+export async function updateOrganizationDetails(
+  organizationId: string,
+  data: { name: string; description: string }
+) {
+  await requirePermission(organizationId, "organization.manage");
+
+  const name = data.name.trim();
+  if (!name) {
+    return { success: false, error: "Name is required" };
+  }
+
+  const organization = await updateOrganization(organizationId, {
+    name,
+    description: data.description.trim(),
+  });
+
+  return organization
+    ? { success: true }
+    : { success: false, error: "Failed to update organization" };
+}
+
+export async function changeMemberRole(
+  organizationId: string,
+  userId: string,
+  role: string
+) {
+  await requirePermission(organizationId, "member.manage");
+
+  if (!isOrganizationRole(role)) {
+    return { success: false, error: "Invalid role" };
+  }
+
+  // Refused if it would leave the organization without an admin
+  return updateMemberRole(organizationId, userId, role);
+}
+
+export async function removeMember(organizationId: string, userId: string) {
+  await requirePermission(organizationId, "member.manage");
+
+  // Refused if it would leave the organization without an admin
+  return removeMemberFromOrganization(organizationId, userId);
+}
+
+export async function inviteMember(
+  organizationId: string,
+  email: string,
+  role: string
+) {
+  const user = await requirePermission(organizationId, "member.invite");
+
+  const normalizedEmail = email.trim();
+  if (!normalizedEmail.includes("@")) {
+    return { success: false, error: "Enter a valid email address" };
+  }
+
+  if (!isOrganizationRole(role)) {
+    return { success: false, error: "Invalid role" };
+  }
+
+  const invitation = await createInvitation(organizationId, normalizedEmail, role, user.id);
+  return invitation
+    ? { success: true }
+    : { success: false, error: "That person is already a member or has a pending invitation" };
+}
+
+export async function revokeInvitation(organizationId: string, invitationId: string) {
+  await requirePermission(organizationId, "member.invite");
+
+  try {
+    // Scoped to the organization so an admin can't touch other clubs' invitations
+    await expireStaleInvitations({ id: invitationId, organizationId });
+    const invitation = await db.organizationInvitation.findFirst({
+      where: { id: invitationId, organizationId, status: "PENDING" }
+    });
+
+    if (!invitation) {
+      return { success: false, error: "Invitation not found" };
+    }
+
+    await db.organizationInvitation.delete({
+      where: { id: invitation.id }
+    });
+
+    await recordAudit({
+      action: "invitation.revoked",
+      targetType: "OrganizationInvitation",
+      targetId: invitation.id,
+      organizationId,
+      before: { email: invitation.email, role: invitation.role },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return { success: false, error: "Failed to revoke invitation" };
+  }
+}
+
+// Post categories the organization adds to the built-in ones
+export async function addOrganizationCategory(organizationId: string, name: string) {
+  await requirePermission(organizationId, "organization.manage");
+
+  const trimmed = name.trim();
+  const slug = slugifyCategory(trimmed);
+  if (!slug) {
+    return { success: false, error: "Enter a category name" };
+  }
+  if (trimmed.length > CATEGORY_NAME_MAX_LENGTH) {
+    return { success: false, error: `Category names must be at most ${CATEGORY_NAME_MAX_LENGTH} characters` };
+  }
+  if (isBuiltInCategory(slug)) {
+    return { success: false, error: "That category is already available to everyone" };
+  }
+
+  try {
+    const existing = await db.organizationCategory.findFirst({
+      where: { organizationId, slug }
+    });
+    if (existing) {
+      return { success: false, error: "The club already has that category" };
+    }
+
+    const category = await db.organizationCategory.create({
+      data: { organizationId, slug, name: trimmed }
+    });
+
+    await recordAudit({
+      action: "organization.category_added",
+      targetType: "OrganizationCategory",
+      targetId: category.id,
+      organizationId,
+      after: { name: category.name, slug: category.slug },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error adding organization category:", error);
+    return { success: false, error: "Failed to add category" };
+  }
+}
+
+// Posts already filed under the category keep it
+export async function removeOrganizationCategory(organizationId: string, categoryId: string) {
+  await requirePermission(organizationId, "organization.manage");
+
+  try {
+    const category = await db.organizationCategory.findFirst({
+      where: { id: categoryId, organizationId }
+    });
+
+    if (!category) {
+      return { success: false, error: "Category not found" };
+    }
+
+    await db.organizationCategory.delete({
+      where: { id: category.id }
+    });
+
+    await recordAudit({
+      action: "organization.category_removed",
+      targetType: "OrganizationCategory",
+      targetId: category.id,
+      organizationId,
+      before: { name: category.name, slug: category.slug },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing organization category:", error);
+    return { success: false, error: "Failed to remove category" };
+  }
+}
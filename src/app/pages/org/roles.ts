@@ -0,0 +1,11 @@
+import { ROLES } from "@/app/shared/constants";
+
+// Roles within an organization, most privileged first. Stored as the
+// OrganizationRole enum; what each role may do lives in @/app/auth/permissions.
+export const ORGANIZATION_ROLES = [ROLES.ADMIN, ROLES.COACH, ROLES.MEMBER] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+export function isOrganizationRole(role: string): role is OrganizationRole {
+  return (ORGANIZATION_ROLES as readonly string[]).includes(role);
+}
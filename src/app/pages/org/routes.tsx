@@ -0,0 +1,15 @@
+import { route } from "rwsdk/router";
+import { isAuthenticated, requireOrganizationPermission } from "@/app/interceptors";
+import OrganizationList from "./OrganizationList";
+import OrganizationOverview from "./OrganizationOverview";
+import OrganizationMembers from "./OrganizationMembers";
+import OrganizationAdmin from "./OrganizationAdmin";
+import OrganizationAuditLog from "./OrganizationAuditLog";
+
+export const orgRoutes = [
+  route("/", [isAuthenticated, OrganizationList]),
+  route("/:organizationId", [requireOrganizationPermission("organization.view"), OrganizationOverview]),
+  route("/:organizationId/members", [requireOrganizationPermission("member.view"), OrganizationMembers]),
+  route("/:organizationId/admin", [requireOrganizationPermission("organization.manage"), OrganizationAdmin]),
+  route("/:organizationId/audit", [requireOrganizationPermission("audit.view"), OrganizationAuditLog]),
+];
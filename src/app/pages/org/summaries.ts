@@ -0,0 +1,42 @@
+import type { MemberSummary } from "./components/MemberTable";
+import type { InvitationSummary } from "./components/InvitationManager";
+import { ORGANIZATION_ROLES } from "./roles";
+
+type OrganizationWithMembers = {
+  members: {
+    role: string;
+    joinedAt: Date;
+    user: { id: string; username: string; email: string | null };
+  }[];
+  invitations: { id: string; email: string; role: string; expiresAt: Date }[];
+};
+
+function roleRank(role: string) {
+  return (ORGANIZATION_ROLES as readonly string[]).indexOf(role);
+}
+
+// Serialisable props for the client components, ordered by role then name
+export function toMemberSummaries(organization: OrganizationWithMembers): MemberSummary[] {
+  return organization.members
+    .map((member) => ({
+      userId: member.user.id,
+      username: member.user.username,
+      email: member.user.email,
+      role: member.role,
+      joinedAt: member.joinedAt.toISOString(),
+    }))
+    .sort(
+      (a, b) =>
+        roleRank(a.role) - roleRank(b.role) ||
+        a.username.localeCompare(b.username)
+    );
+}
+
+export function toInvitationSummaries(organization: OrganizationWithMembers): InvitationSummary[] {
+  return organization.invitations.map((invitation) => ({
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt.toISOString(),
+  }));
+}
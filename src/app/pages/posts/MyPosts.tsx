@@ -0,0 +1,95 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Badge } from "@/app/components/ui/badge";
+import { Button } from "@/app/components/ui/button";
+import { link } from "@/app/shared/links";
+import { db } from "@/db";
+import { PostRowActions } from "./components/PostRowActions";
+import { getCategoryLabels } from "./postCategories";
+
+const SECTIONS = [
+  { status: "DRAFT", title: "Drafts", description: "Only you can see these", empty: "No drafts." },
+  { status: "PUBLISHED", title: "Published", description: "Live in the community feed", empty: "Nothing published yet." },
+  { status: "ARCHIVED", title: "Archived", description: "Taken out of the feed; publish again from the editor", empty: "Nothing archived." },
+] as const;
+
+// Every post the signed-in user has written, whatever its status
+export default async function MyPosts(props: RequestInfo) {
+  const posts = await db.post.findMany({
+    where: { userId: props.ctx.user!.id },
+    orderBy: { updatedAt: "desc" },
+    select: {
+      id: true,
+      title: true,
+      category: true,
+      status: true,
+      publishedAt: true,
+      updatedAt: true,
+      _count: { select: { comments: { where: { deletedAt: null } } } },
+    },
+  });
+  const labelFor = await getCategoryLabels(
+    posts.flatMap((post) => (post.category ? [post.category] : []))
+  );
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-gray-900">My Posts</h1>
+          <Button asChild>
+            <a href={link("/posts/new")}>New post</a>
+          </Button>
+        </div>
+
+        {SECTIONS.map((section) => {
+          const sectionPosts = posts.filter((post) => post.status === section.status);
+
+          return (
+            <Card key={section.status}>
+              <CardHeader>
+                <CardTitle>{section.title}</CardTitle>
+                <CardDescription>{section.description}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {sectionPosts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{section.empty}</p>
+                ) : (
+                  <ul className="divide-y rounded-md border">
+                    {sectionPosts.map((post) => (
+                      <li key={post.id} className="flex items-center justify-between gap-4 p-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            {post.status === "PUBLISHED" ? (
+                              <a
+                                href={link("/posts/:postId", { postId: post.id })}
+                                className="font-medium truncate hover:underline"
+                              >
+                                {post.title}
+                              </a>
+                            ) : (
+                              <span className="font-medium truncate">{post.title || "Untitled draft"}</span>
+                            )}
+                            {post.category && <Badge variant="secondary">{labelFor(post.category)}</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {post.publishedAt
+                              ? `Published ${post.publishedAt.toLocaleDateString()}`
+                              : `Last edited ${post.updatedAt.toLocaleString()}`}
+                            {post.status !== "DRAFT" && ` · ${post._count.comments} comments`}
+                          </p>
+                        </div>
+                        <PostRowActions postId={post.id} title={post.title || "Untitled draft"} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </HomeLayout>
+  );
+}
@@ -0,0 +1,48 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { PostComposer } from "./components/PostComposer";
+import { getCategoriesForAuthor, getCategoryLabels } from "./postCategories";
+
+// New posts at /posts/new, and editing at /posts/:postId/edit for the author
+export default async function PostComposerPage(props: RequestInfo) {
+  const { postId } = props.params;
+
+  let post = null;
+  if (postId) {
+    post = await db.post.findUnique({
+      where: { id: postId },
+      select: { id: true, userId: true, title: true, content: true, category: true, status: true },
+    });
+
+    if (!post || post.userId !== props.ctx.user!.id) {
+      return new Response("Post not found", { status: 404 });
+    }
+  }
+
+  // A post keeps its category even if the author can no longer pick it
+  const categories = await getCategoriesForAuthor(props.ctx.user!.id);
+  if (post?.category && !categories.some((category) => category.slug === post.category)) {
+    const labelFor = await getCategoryLabels([post.category]);
+    categories.push({ slug: post.category, label: labelFor(post.category) });
+  }
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <PostComposer
+          categories={categories}
+          post={
+            post && {
+              id: post.id,
+              title: post.title,
+              content: post.content,
+              category: post.category,
+              status: post.status,
+            }
+          }
+        />
+      </div>
+    </HomeLayout>
+  );
+}
@@ -0,0 +1,39 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { PostCard } from "@/app/components/PostCard";
+import { CommentThread } from "./components/CommentThread";
+import { getPublishedPost } from "./feed";
+import { listComments } from "./comments";
+
+// A published post and its comments at /posts/:postId. Public like the feed;
+// signing in is only needed to comment or give kudos.
+export default async function PostPage(props: RequestInfo) {
+  const viewerId = props.ctx.user?.id;
+  const post = await getPublishedPost(props.params.postId, viewerId);
+
+  if (!post) {
+    return new Response("Post not found", { status: 404 });
+  }
+
+  const comments = await listComments(post.id, viewerId);
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <PostCard
+          id={post.id}
+          user={post.author}
+          title={post.title}
+          content={post.content}
+          publishedAt={post.publishedAt}
+          category={post.category}
+          comments={post.comments}
+          kudos={post.kudos}
+          hasGivenKudos={post.hasGivenKudos}
+          signedIn={!!viewerId}
+        />
+        <CommentThread postId={post.id} initialComments={comments} signedIn={!!viewerId} />
+      </div>
+    </HomeLayout>
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { act, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PostComposer } from '../components/PostComposer'
+import { savePost } from '../functions'
+
+vi.mock('../functions', () => ({
+  createDraft: vi.fn(),
+  savePost: vi.fn(),
+  publishPost: vi.fn(),
+  archivePost: vi.fn(),
+}))
+
+vi.mock('@/app/shared/links', () => ({
+  link: vi.fn((path: string) => path),
+}))
+
+const draft = {
+  id: 'post-1',
+  title: 'Regatta',
+  content: 'Wind',
+  category: null,
+  status: 'DRAFT' as const,
+}
+
+describe('PostComposer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should autosave text typed while an earlier save was in flight', async () => {
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime })
+    let finishFirstSave: (value: { success: boolean }) => void = () => {}
+    vi.mocked(savePost)
+      .mockImplementationOnce(() => new Promise((resolve) => { finishFirstSave = resolve }) as never)
+      .mockResolvedValue({ success: true } as never)
+
+    render(<PostComposer post={draft} categories={[]} />)
+    const content = screen.getByLabelText('Post')
+
+    await user.type(content, ' today')
+    await act(() => vi.advanceTimersByTimeAsync(1500))
+    expect(savePost).toHaveBeenCalledTimes(1)
+
+    // Keep typing before the first save comes back
+    await user.type(content, ' from the north')
+    await act(async () => finishFirstSave({ success: true }))
+    expect(screen.queryByText('Draft saved')).not.toBeInTheDocument()
+
+    await act(() => vi.advanceTimersByTimeAsync(1500))
+    expect(savePost).toHaveBeenCalledTimes(2)
+    expect(savePost).toHaveBeenLastCalledWith('post-1', {
+      title: 'Regatta',
+      content: 'Wind today from the north',
+      category: null,
+    })
+    expect(screen.getByText('Draft saved')).toBeInTheDocument()
+  })
+})
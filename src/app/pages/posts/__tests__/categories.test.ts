@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { db } from '@/db'
+import { parseCategoryParam, slugifyCategory } from '../categories'
+import { getFeedCategoryCounts } from '../postCategories'
+
+vi.mock('@/db', () => ({
+  db: {
+    post: { groupBy: vi.fn() },
+    organizationCategory: { findMany: vi.fn() },
+  },
+}))
+
+describe('Post categories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('slugifyCategory', () => {
+    it('should make URL-safe slugs from names', () => {
+      expect(slugifyCategory('Training')).toBe('training')
+      expect(slugifyCategory('  Night Racing! ')).toBe('night-racing')
+      expect(slugifyCategory('Regatta – Åsgårdstrand')).toBe('regatta-asgardstrand')
+      expect(slugifyCategory('!!!')).toBe('')
+    })
+  })
+
+  describe('parseCategoryParam', () => {
+    it('should read a normalised category from the query string', () => {
+      expect(parseCategoryParam(new URL('https://example.com/home?category=Training'))).toBe('training')
+      expect(parseCategoryParam(new URL('https://example.com/home?category='))).toBeUndefined()
+      expect(parseCategoryParam(new URL('https://example.com/home'))).toBeUndefined()
+    })
+  })
+
+  describe('getFeedCategoryCounts', () => {
+    it('should count published posts per category, listing every built-in one', async () => {
+      vi.mocked(db.post.groupBy).mockResolvedValue([
+        { category: 'training', _count: { _all: 3 } },
+        { category: 'night-racing', _count: { _all: 2 } },
+        { category: null, _count: { _all: 1 } },
+      ] as never)
+      vi.mocked(db.organizationCategory.findMany).mockResolvedValue([{ slug: 'night-racing', name: 'Night Racing' }] as never)
+
+      const { total, categories } = await getFeedCategoryCounts()
+
+      expect(db.post.groupBy).toHaveBeenCalledWith(expect.objectContaining({ where: { status: 'PUBLISHED' } }))
+      expect(total).toBe(6)
+      expect(categories).toEqual([
+        { slug: 'event', label: 'Event', count: 0 },
+        { slug: 'news', label: 'News', count: 0 },
+        { slug: 'training', label: 'Training', count: 3 },
+        { slug: 'social', label: 'Social', count: 0 },
+        { slug: 'night-racing', label: 'Night Racing', count: 2 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { buildCommentThread } from '../comments'
+
+function makeComment(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    userId: 'erik',
+    parentId: null,
+    content: `Comment ${id}`,
+    createdAt: new Date(Date.UTC(2025, 0, 1)),
+    editedAt: null,
+    deletedAt: null,
+    user: {
+      username: 'erik',
+      deletedAt: null,
+      profile: { name: 'Erik Solberg', profilePicture: null },
+    },
+    ...overrides,
+  }
+}
+
+describe('Comment threads', () => {
+  it('should nest replies under the comment they answer, in order', () => {
+    const thread = buildCommentThread([
+      makeComment('a'),
+      makeComment('b'),
+      makeComment('a1', { parentId: 'a' }),
+      makeComment('a1x', { parentId: 'a1' }),
+      makeComment('a2', { parentId: 'a' }),
+    ])
+
+    expect(thread.map((comment) => comment.id)).toEqual(['a', 'b'])
+    expect(thread[0].replies.map((comment) => comment.id)).toEqual(['a1', 'a2'])
+    expect(thread[0].replies[0].replies.map((comment) => comment.id)).toEqual(['a1x'])
+  })
+
+  it("should mark the viewer's own and edited comments", () => {
+    const thread = buildCommentThread([
+      makeComment('a', { editedAt: new Date() }),
+      makeComment('b', { userId: 'someone-else' }),
+    ], 'erik')
+
+    expect(thread.map(({ mine, edited }) => ({ mine, edited }))).toEqual([
+      { mine: true, edited: true },
+      { mine: false, edited: false },
+    ])
+  })
+
+  it('should keep a deleted comment with replies as a placeholder', () => {
+    const [placeholder] = buildCommentThread([
+      makeComment('a', { deletedAt: new Date(), content: '' }),
+      makeComment('a1', { parentId: 'a' }),
+    ], 'erik')
+
+    expect(placeholder).toMatchObject({ id: 'a', author: null, content: '', deleted: true, mine: false })
+    expect(placeholder.replies.map((comment) => comment.id)).toEqual(['a1'])
+  })
+
+  it('should drop deleted comments once nothing below them is left', () => {
+    const thread = buildCommentThread([
+      makeComment('a', { deletedAt: new Date() }),
+      makeComment('a1', { parentId: 'a', deletedAt: new Date() }),
+      makeComment('b'),
+    ])
+
+    expect(thread.map((comment) => comment.id)).toEqual(['b'])
+  })
+
+  it('should not show who wrote comments from deleted accounts', () => {
+    const [comment] = buildCommentThread([
+      makeComment('a', { user: { username: 'deleted-1', deletedAt: new Date(), profile: null } }),
+    ])
+
+    expect(comment.author).toEqual({ username: null, name: 'Deleted user', avatarUrl: null })
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { db } from '@/db'
+import { FEED_PAGE_SIZE, listPublishedPosts } from '../feed'
+
+vi.mock('@/db', () => ({
+  db: {
+    post: { findMany: vi.fn() },
+    organizationCategory: { findMany: vi.fn() },
+  },
+}))
+
+function makePost(id: number, user: Record<string, unknown> = {}) {
+  return {
+    id: `post-${id}`,
+    title: `Post ${id}`,
+    content: 'Wind steady at 12 knots',
+    category: 'training',
+    publishedAt: new Date(Date.UTC(2025, 0, 31 - id)),
+    createdAt: new Date(Date.UTC(2025, 0, 1)),
+    _count: { comments: id, kudos: 2 * id },
+    user: {
+      username: 'erik',
+      deletedAt: null,
+      profile: { name: 'Erik Solberg', profilePicture: '/avatars/erik.png' },
+      ...user,
+    },
+  }
+}
+
+describe('Community feed', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should load the newest published posts with author details', async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([makePost(1)] as never)
+
+    const page = await listPublishedPosts()
+
+    expect(db.post.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PUBLISHED' },
+      orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+      take: FEED_PAGE_SIZE + 1,
+    }))
+    expect(vi.mocked(db.post.findMany).mock.calls[0][0]).not.toHaveProperty('cursor')
+    expect(page).toEqual({
+      posts: [{
+        id: 'post-1',
+        title: 'Post 1',
+        content: 'Wind steady at 12 knots',
+        category: { slug: 'training', label: 'Training' },
+        publishedAt: '2025-01-30T00:00:00.000Z',
+        comments: 1,
+        kudos: 2,
+        hasGivenKudos: false,
+        author: { username: 'erik', name: 'Erik Solberg', avatarUrl: '/avatars/erik.png' },
+      }],
+      nextCursor: null,
+    })
+  })
+
+  it('should return a cursor when there is another page', async () => {
+    const posts = Array.from({ length: FEED_PAGE_SIZE + 1 }, (_, i) => makePost(i + 1))
+    vi.mocked(db.post.findMany).mockResolvedValue(posts as never)
+
+    const page = await listPublishedPosts()
+
+    expect(page.posts).toHaveLength(FEED_PAGE_SIZE)
+    expect(page.nextCursor).toBe(`post-${FEED_PAGE_SIZE}`)
+  })
+
+  it('should continue after the cursor', async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([] as never)
+
+    await listPublishedPosts({ cursor: 'post-10' })
+
+    expect(db.post.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      cursor: { id: 'post-10' },
+      skip: 1,
+    }))
+  })
+
+  it("should mark the posts the viewer gave kudos to", async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([
+      { ...makePost(1), kudos: [{ id: 'kudos-1' }] },
+      { ...makePost(2), kudos: [] },
+    ] as never)
+
+    const { posts } = await listPublishedPosts({ viewerId: 'viewer' })
+
+    expect(vi.mocked(db.post.findMany).mock.calls[0][0]?.include).toMatchObject({
+      _count: { select: { comments: { where: { deletedAt: null } }, kudos: true } },
+      kudos: { where: { userId: 'viewer' }, select: { id: true } },
+    })
+    expect(posts.map((post) => post.hasGivenKudos)).toEqual([true, false])
+    expect(db.post.findMany).toHaveBeenCalledTimes(1)
+  })
+
+  it('should filter by category', async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([] as never)
+
+    await listPublishedPosts({ category: 'training' })
+
+    expect(db.post.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PUBLISHED', category: 'training' },
+    }))
+  })
+
+  it('should label organization categories by name', async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([makePost(1), { ...makePost(2), category: 'night-racing' }] as never)
+    vi.mocked(db.organizationCategory.findMany).mockResolvedValue([{ slug: 'night-racing', name: 'Night Racing' }] as never)
+
+    const { posts } = await listPublishedPosts()
+
+    expect(db.organizationCategory.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { slug: { in: ['night-racing'] } },
+    }))
+    expect(posts.map((post) => post.category)).toEqual([
+      { slug: 'training', label: 'Training' },
+      { slug: 'night-racing', label: 'Night Racing' },
+    ])
+  })
+
+  it('should fall back to the username without a profile name', async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([makePost(1, { profile: null })] as never)
+
+    const { posts } = await listPublishedPosts()
+
+    expect(posts[0].author).toEqual({ username: 'erik', name: 'erik', avatarUrl: null })
+  })
+
+  it('should hide the author of a deleted account', async () => {
+    vi.mocked(db.post.findMany).mockResolvedValue([
+      makePost(1, { username: 'deleted-user-1', deletedAt: new Date(), profile: null }),
+    ] as never)
+
+    const { posts } = await listPublishedPosts()
+
+    expect(posts[0].author).toEqual({ username: null, name: 'Deleted user', avatarUrl: null })
+  })
+})
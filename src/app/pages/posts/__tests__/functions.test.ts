@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { requestInfo } from 'rwsdk/worker'
+import { db } from '@/db'
+import {
+  createDraft,
+  savePost,
+  publishPost,
+  archivePost,
+  deletePost,
+  toggleKudos,
+  addComment,
+  editComment,
+  deleteComment,
+} from '../functions'
+
+vi.mock('@/db', () => ({
+  db: {
+    post: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    organizationCategory: { findMany: vi.fn() },
+    kudos: {
+      findUnique: vi.fn(),
+      deleteMany: vi.fn(),
+      upsert: vi.fn(),
+      count: vi.fn(),
+    },
+    comment: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}))
+
+const ctx = requestInfo.ctx as { user?: { id: string; role: string } }
+
+function existingPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'post-1',
+    userId: 'author',
+    title: 'Draft',
+    content: '',
+    category: null,
+    status: 'DRAFT',
+    publishedAt: null,
+    ...overrides,
+  }
+}
+
+describe('Post server functions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ctx.user = { id: 'author', role: 'USER' }
+    vi.mocked(db.organizationCategory.findMany).mockResolvedValue([] as never)
+    vi.mocked(db.comment.findMany).mockResolvedValue([] as never)
+  })
+
+  describe('createDraft', () => {
+    it('should create a draft owned by the signed-in user', async () => {
+      vi.mocked(db.post.create).mockResolvedValue({ id: 'post-1' } as never)
+
+      const result = await createDraft({ title: '  Regatta notes ', content: '', category: 'training' })
+
+      expect(result).toEqual({ success: true, postId: 'post-1' })
+      expect(db.post.create).toHaveBeenCalledWith({
+        data: { title: 'Regatta notes', content: '', category: 'training', userId: 'author', status: 'DRAFT' },
+      })
+    })
+
+    it('should reject unknown categories', async () => {
+      const result = await createDraft({ title: '', content: '', category: 'gossip' })
+
+      expect(result).toEqual({ success: false, error: 'Invalid category' })
+      expect(db.post.create).not.toHaveBeenCalled()
+    })
+
+    it("should accept the categories of the author's organizations", async () => {
+      vi.mocked(db.organizationCategory.findMany).mockResolvedValue([{ slug: 'night-racing', name: 'Night Racing' }] as never)
+      vi.mocked(db.post.create).mockResolvedValue({ id: 'post-1' } as never)
+
+      const result = await createDraft({ title: '', content: '', category: 'night-racing' })
+
+      expect(result.success).toBe(true)
+      expect(db.organizationCategory.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { organization: { members: { some: { userId: 'author' } } } },
+      }))
+    })
+
+    it('should require a signed-in user', async () => {
+      ctx.user = undefined
+
+      await expect(createDraft({ title: '', content: '', category: null })).rejects.toThrow('Unauthorized')
+    })
+  })
+
+  describe('ownership', () => {
+    it("should treat another author's post as missing", async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue(existingPost({ userId: 'someone-else' }) as never)
+
+      for (const result of [
+        await savePost('post-1', { title: 'Mine now', content: '', category: null }),
+        await publishPost('post-1', { title: 'Mine now', content: 'Hi', category: null }),
+        await archivePost('post-1'),
+        await deletePost('post-1'),
+      ]) {
+        expect(result).toEqual({ success: false, error: 'Post not found' })
+      }
+      expect(db.post.update).not.toHaveBeenCalled()
+      expect(db.post.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('publishPost', () => {
+    it('should need a title and content', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue(existingPost() as never)
+
+      const result = await publishPost('post-1', { title: 'Untitled', content: '   ', category: null })
+
+      expect(result.success).toBe(false)
+      expect(db.post.update).not.toHaveBeenCalled()
+    })
+
+    it('should publish with the current time', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue(existingPost() as never)
+
+      await publishPost('post-1', { title: 'Race report', content: 'We won', category: 'news' })
+
+      expect(db.post.update).toHaveBeenCalledWith({
+        where: { id: 'post-1' },
+        data: expect.objectContaining({ status: 'PUBLISHED', publishedAt: expect.any(Date) }),
+      })
+    })
+
+    it('should keep the original date when republishing an archived post', async () => {
+      const publishedAt = new Date('2025-01-01T00:00:00Z')
+      vi.mocked(db.post.findUnique).mockResolvedValue(existingPost({ status: 'ARCHIVED', publishedAt }) as never)
+
+      await publishPost('post-1', { title: 'Race report', content: 'We won', category: null })
+
+      expect(db.post.update).toHaveBeenCalledWith({
+        where: { id: 'post-1' },
+        data: expect.objectContaining({ status: 'PUBLISHED', publishedAt }),
+      })
+    })
+  })
+
+  describe('savePost', () => {
+    it('should not let a published post lose its content', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue(existingPost({ status: 'PUBLISHED' }) as never)
+
+      const result = await savePost('post-1', { title: '', content: '', category: null })
+
+      expect(result.success).toBe(false)
+      expect(db.post.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('toggleKudos', () => {
+    const key = { userId_postId: { userId: 'author', postId: 'post-1' } }
+
+    it('should give kudos and return the new count', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue({ status: 'PUBLISHED' } as never)
+      vi.mocked(db.kudos.findUnique).mockResolvedValue(null)
+      vi.mocked(db.kudos.count).mockResolvedValue(3)
+
+      const result = await toggleKudos('post-1')
+
+      expect(result).toEqual({ success: true, given: true, count: 3 })
+      expect(db.kudos.upsert).toHaveBeenCalledWith({
+        where: key,
+        create: { userId: 'author', postId: 'post-1' },
+        update: {},
+      })
+      expect(db.kudos.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('should take back kudos already given', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue({ status: 'PUBLISHED' } as never)
+      vi.mocked(db.kudos.findUnique).mockResolvedValue({ id: 'kudos-1' } as never)
+      vi.mocked(db.kudos.count).mockResolvedValue(2)
+
+      const result = await toggleKudos('post-1')
+
+      expect(result).toEqual({ success: true, given: false, count: 2 })
+      expect(db.kudos.deleteMany).toHaveBeenCalledWith({ where: { userId: 'author', postId: 'post-1' } })
+      expect(db.kudos.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should not allow kudos on unpublished posts', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue({ status: 'DRAFT' } as never)
+
+      const result = await toggleKudos('post-1')
+
+      expect(result).toEqual({ success: false, error: 'Post not found' })
+      expect(db.kudos.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should require a signed-in user', async () => {
+      ctx.user = undefined
+
+      await expect(toggleKudos('post-1')).rejects.toThrow('Unauthorized')
+    })
+  })
+
+  describe('comments', () => {
+    function existingComment(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'comment-1',
+        userId: 'author',
+        postId: 'post-1',
+        deletedAt: null,
+        post: { status: 'PUBLISHED' },
+        ...overrides,
+      }
+    }
+
+    it('should add a reply to a comment on the same post', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue({ status: 'PUBLISHED' } as never)
+      vi.mocked(db.comment.findUnique).mockResolvedValue({ postId: 'post-1', deletedAt: null } as never)
+
+      const result = await addComment('post-1', ' Nice sailing! ', 'comment-1')
+
+      expect(result).toEqual({ success: true, comments: [] })
+      expect(db.comment.create).toHaveBeenCalledWith({
+        data: { postId: 'post-1', parentId: 'comment-1', userId: 'author', content: 'Nice sailing!' },
+      })
+    })
+
+    it('should not reply to a comment on another post', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue({ status: 'PUBLISHED' } as never)
+      vi.mocked(db.comment.findUnique).mockResolvedValue({ postId: 'post-2', deletedAt: null } as never)
+
+      const result = await addComment('post-1', 'Hello', 'comment-1')
+
+      expect(result).toEqual({ success: false, error: 'Comment not found' })
+      expect(db.comment.create).not.toHaveBeenCalled()
+    })
+
+    it('should not comment on unpublished posts', async () => {
+      vi.mocked(db.post.findUnique).mockResolvedValue({ status: 'DRAFT' } as never)
+
+      const result = await addComment('post-1', 'Hello')
+
+      expect(result).toEqual({ success: false, error: 'Post not found' })
+      expect(db.comment.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject empty comments', async () => {
+      const result = await addComment('post-1', '   ')
+
+      expect(result.success).toBe(false)
+      expect(db.comment.create).not.toHaveBeenCalled()
+    })
+
+    it('should mark edited comments', async () => {
+      vi.mocked(db.comment.findUnique).mockResolvedValue(existingComment() as never)
+
+      const result = await editComment('comment-1', 'Fixed a typo')
+
+      expect(result.success).toBe(true)
+      expect(db.comment.update).toHaveBeenCalledWith({
+        where: { id: 'comment-1' },
+        data: { content: 'Fixed a typo', editedAt: expect.any(Date) },
+      })
+    })
+
+    it("should treat another user's comment as missing", async () => {
+      vi.mocked(db.comment.findUnique).mockResolvedValue(existingComment({ userId: 'someone-else' }) as never)
+
+      const edited = await editComment('comment-1', 'Mine now')
+      const deleted = await deleteComment('comment-1')
+
+      expect(edited).toEqual({ success: false, error: 'Comment not found' })
+      expect(deleted).toEqual({ success: false, error: 'Comment not found' })
+      expect(db.comment.update).not.toHaveBeenCalled()
+    })
+
+    it('should blank deleted comments instead of removing them', async () => {
+      vi.mocked(db.comment.findUnique).mockResolvedValue(existingComment() as never)
+
+      const result = await deleteComment('comment-1')
+
+      expect(result.success).toBe(true)
+      expect(db.comment.update).toHaveBeenCalledWith({
+        where: { id: 'comment-1' },
+        data: { content: '', deletedAt: expect.any(Date) },
+      })
+    })
+
+    it('should not change comments that are already deleted', async () => {
+      vi.mocked(db.comment.findUnique).mockResolvedValue(existingComment({ deletedAt: new Date() }) as never)
+
+      const result = await editComment('comment-1', 'Back again')
+
+      expect(result.success).toBe(false)
+      expect(db.comment.update).not.toHaveBeenCalled()
+    })
+  })
+})
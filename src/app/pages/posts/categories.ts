@@ -0,0 +1,48 @@
+// Post categories. Posts store a slug ("training"), which is also what the
+// feed filter puts in the URL (/home?category=training). Every community has
+// the built-in categories; organizations can add their own, stored as
+// OrganizationCategory rows.
+
+export type CategoryOption = {
+  slug: string;
+  label: string;
+};
+
+export const BUILT_IN_CATEGORIES: readonly CategoryOption[] = [
+  { slug: "event", label: "Event" },
+  { slug: "news", label: "News" },
+  { slug: "training", label: "Training" },
+  { slug: "social", label: "Social" },
+];
+
+export const CATEGORY_NAME_MAX_LENGTH = 40;
+
+export function isBuiltInCategory(slug: string) {
+  return BUILT_IN_CATEGORIES.some((category) => category.slug === slug);
+}
+
+// Lowercase letters, digits and single hyphens, e.g. "Night Racing" becomes
+// "night-racing". Empty when nothing usable is left.
+export function slugifyCategory(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// A category from the query string, or undefined for "all posts"
+export function parseCategoryParam(url: URL) {
+  const value = url.searchParams.get("category");
+  const slug = value ? slugifyCategory(value) : "";
+  return slug || undefined;
+}
+
+// For slugs whose organization category has since been removed
+export function fallbackCategoryLabel(slug: string) {
+  return slug
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
@@ -0,0 +1,93 @@
+import { db } from "@/db";
+import { toFeedAuthor, type FeedAuthor } from "./feed";
+
+// Comment threads on a post's page. Replies hang off the comment they
+// answer, oldest first at every level. A deleted comment stays in the thread
+// as a placeholder while it has replies, and disappears once it has none.
+
+export const COMMENT_MAX_LENGTH = 2000;
+
+export type ThreadComment = {
+  id: string;
+  // Null for placeholders, which show neither author nor content
+  author: FeedAuthor | null;
+  content: string;
+  createdAt: string;
+  edited: boolean;
+  deleted: boolean;
+  // Whether the viewer wrote it, and so may edit or delete it
+  mine: boolean;
+  replies: ThreadComment[];
+};
+
+type CommentRow = {
+  id: string;
+  userId: string;
+  parentId: string | null;
+  content: string;
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  user: Parameters<typeof toFeedAuthor>[0];
+};
+
+// Rows must be ordered oldest first
+export function buildCommentThread(rows: CommentRow[], viewerId?: string | null): ThreadComment[] {
+  const children = new Map<string | null, CommentRow[]>();
+  const ids = new Set(rows.map((row) => row.id));
+  for (const row of rows) {
+    // A reply whose parent is missing would otherwise vanish
+    const parentId = row.parentId && ids.has(row.parentId) ? row.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), row]);
+  }
+
+  const build = (parentId: string | null): ThreadComment[] =>
+    (children.get(parentId) ?? []).flatMap((row): ThreadComment[] => {
+      const replies = build(row.id);
+
+      if (row.deletedAt) {
+        if (replies.length === 0) return [];
+        return [{
+          id: row.id,
+          author: null,
+          content: "",
+          createdAt: row.createdAt.toISOString(),
+          edited: false,
+          deleted: true,
+          mine: false,
+          replies,
+        }];
+      }
+
+      return [{
+        id: row.id,
+        author: toFeedAuthor(row.user),
+        content: row.content,
+        createdAt: row.createdAt.toISOString(),
+        edited: !!row.editedAt,
+        deleted: false,
+        mine: !!viewerId && row.userId === viewerId,
+        replies,
+      }];
+    });
+
+  return build(null);
+}
+
+export async function listComments(postId: string, viewerId?: string | null) {
+  const comments = await db.comment.findMany({
+    where: { postId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    include: {
+      user: {
+        select: {
+          username: true,
+          deletedAt: true,
+          profile: { select: { name: true, profilePicture: true } },
+        },
+      },
+    },
+  });
+
+  return buildCommentThread(comments, viewerId);
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { addComment, editComment, deleteComment } from "../functions";
+import type { ThreadComment } from "../comments";
+import { Button } from "@/app/components/ui/button";
+import { Textarea } from "@/app/components/ui/textarea";
+import { link } from "@/app/shared/links";
+
+// Deeper replies still nest, but stop moving further right
+const MAX_INDENT_DEPTH = 4;
+
+type ChangeResult = { success: boolean; error?: string; comments?: ThreadComment[] };
+
+function CommentForm({
+  initialContent = "",
+  submitLabel,
+  placeholder,
+  onSubmit,
+  onCancel,
+}: {
+  initialContent?: string;
+  submitLabel: string;
+  placeholder?: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [content, setContent] = useState(initialContent);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = async () => {
+    if (await onSubmit(content)) {
+      setContent("");
+    }
+  };
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        startTransition(() => void handleSubmit());
+      }}
+    >
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={isPending || !content.trim()}>
+          {isPending ? "Saving..." : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isPending}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function CommentThread({
+  postId,
+  initialComments,
+  signedIn,
+}: {
+  postId: string;
+  initialComments: ThreadComment[];
+  signedIn: boolean;
+}) {
+  const [comments, setComments] = useState(initialComments);
+  // At most one reply or edit form is open at a time
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const settle = (result: ChangeResult, failure: string) => {
+    if (result.success && result.comments) {
+      setComments(result.comments);
+      setReplyingTo(null);
+      setEditing(null);
+      return true;
+    }
+    toast.error(failure + ": " + result.error);
+    return false;
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm("Delete this comment?")) return;
+    settle(await deleteComment(commentId), "Failed to delete comment");
+  };
+
+  const renderComment = (comment: ThreadComment, depth: number) => (
+    <li key={comment.id} id={`comment-${comment.id}`} className="space-y-3">
+      <div className="rounded-lg bg-gray-50 p-3">
+        {comment.deleted ? (
+          <p className="text-sm italic text-gray-500">This comment was deleted.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-baseline gap-2 text-sm">
+              {comment.author?.username ? (
+                <a
+                  href={link("/user/:username/profile", { username: comment.author.username })}
+                  className="font-semibold text-gray-900 hover:underline"
+                >
+                  {comment.author.name}
+                </a>
+              ) : (
+                <span className="font-semibold text-gray-500">{comment.author?.name}</span>
+              )}
+              <time dateTime={comment.createdAt} className="text-gray-500">
+                {formatDate(comment.createdAt)}
+              </time>
+              {comment.edited && <span className="text-gray-500">(edited)</span>}
+            </div>
+
+            {editing === comment.id ? (
+              <div className="mt-2">
+                <CommentForm
+                  initialContent={comment.content}
+                  submitLabel="Save"
+                  onSubmit={async (content) =>
+                    settle(await editComment(comment.id, content), "Failed to edit comment")
+                  }
+                  onCancel={() => setEditing(null)}
+                />
+              </div>
+            ) : (
+              <p className="mt-1 whitespace-pre-line text-gray-700">{comment.content}</p>
+            )}
+
+            {signedIn && editing !== comment.id && (
+              <div className="mt-2 flex gap-3 text-sm text-gray-600">
+                <button
+                  type="button"
+                  className="hover:text-blue-600"
+                  onClick={() => {
+                    setEditing(null);
+                    setReplyingTo(comment.id);
+                  }}
+                >
+                  Reply
+                </button>
+                {comment.mine && (
+                  <>
+                    <button
+                      type="button"
+                      className="hover:text-blue-600"
+                      onClick={() => {
+                        setReplyingTo(null);
+                        setEditing(comment.id);
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => startTransition(() => void handleDelete(comment.id))}
+                      disabled={isPending}
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {replyingTo === comment.id && (
+        <div className="ml-6">
+          <CommentForm
+            submitLabel="Reply"
+            placeholder={`Reply to ${comment.author?.name ?? "comment"}`}
+            onSubmit={async (content) =>
+              settle(await addComment(postId, content, comment.id), "Failed to reply")
+            }
+            onCancel={() => setReplyingTo(null)}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul className={`space-y-3 ${depth < MAX_INDENT_DEPTH ? "ml-6 border-l border-gray-200 pl-4" : ""}`}>
+          {comment.replies.map((reply) => renderComment(reply, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <section id="comments" className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Comments</h2>
+
+      {signedIn ? (
+        <CommentForm
+          submitLabel="Comment"
+          placeholder="Add a comment"
+          onSubmit={async (content) => settle(await addComment(postId, content), "Failed to add comment")}
+        />
+      ) : (
+        <p className="text-sm text-gray-600">
+          <a href={link("/user/login")} className="text-blue-600 hover:underline">
+            Log in
+          </a>{" "}
+          to join the conversation.
+        </p>
+      )}
+
+      {comments.length > 0 ? (
+        <ul className="space-y-3">{comments.map((comment) => renderComment(comment, 0))}</ul>
+      ) : (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      )}
+    </section>
+  );
+}
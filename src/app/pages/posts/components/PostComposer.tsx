@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import { createDraft, savePost, publishPost, archivePost } from "../functions";
+import type { CategoryOption } from "../categories";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/app/components/ui/select";
+import { link } from "@/app/shared/links";
+
+export type ComposerPost = {
+  id: string;
+  title: string;
+  content: string;
+  category: string | null;
+  status: "DRAFT" | "PUBLISHED" | "ARCHIVED";
+};
+
+// Radix Select items can't have an empty value
+const NO_CATEGORY = "none";
+
+const AUTOSAVE_DELAY = 1500;
+
+export function PostComposer({
+  post,
+  categories,
+}: {
+  post: ComposerPost | null;
+  categories: CategoryOption[];
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+  const [title, setTitle] = useState(post?.title ?? "");
+  const [content, setContent] = useState(post?.content ?? "");
+  const [category, setCategory] = useState(post?.category ?? NO_CATEGORY);
+  const [dirty, setDirty] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<"saved" | "saving" | "error" | null>(null);
+
+  const status = post?.status ?? "DRAFT";
+
+  // The draft is created on the first save; later saves must reuse it, even
+  // ones queued before the first finished
+  const postId = useRef(post?.id ?? null);
+  const saving = useRef<Promise<unknown>>(Promise.resolve());
+  // Bumped on every edit so a save only marks the form clean if nothing was
+  // typed while it was in flight
+  const revision = useRef(0);
+
+  const input = () => ({
+    title,
+    content,
+    category: category === NO_CATEGORY ? null : category,
+  });
+
+  const save = () => {
+    const data = input();
+    const savedRevision = revision.current;
+    saving.current = saving.current.then(async () => {
+      if (postId.current) {
+        return savePost(postId.current, data);
+      }
+
+      const created = await createDraft(data);
+      if (created.success && created.postId) {
+        postId.current = created.postId;
+        window.history.replaceState(null, "", link("/posts/:postId/edit", { postId: created.postId }));
+      }
+      return created;
+    });
+    return (saving.current as Promise<{ success: boolean; error?: string }>).then((saved) => {
+      if (saved.success && revision.current === savedRevision) {
+        setDirty(false);
+      }
+      return saved;
+    });
+  };
+
+  // Drafts autosave shortly after the author stops typing. Published posts
+  // are live, so changes to them wait for "Save changes".
+  useEffect(() => {
+    if (!dirty || status !== "DRAFT") return;
+    if (!postId.current && !title.trim() && !content.trim()) return;
+
+    const timer = setTimeout(async () => {
+      setSaveStatus("saving");
+      const saved = await save();
+      setSaveStatus(saved.success ? "saved" : "error");
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [title, content, category, dirty]);
+
+  const change = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    revision.current++;
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    const saved = await save();
+    if (saved.success) {
+      setResult("Changes saved successfully");
+    } else {
+      setResult("Failed to save: " + saved.error);
+    }
+  };
+
+  const handlePublish = async () => {
+    const saved = await save();
+    if (!saved.success || !postId.current) {
+      setResult("Failed to publish: " + saved.error);
+      return;
+    }
+
+    const published = await publishPost(postId.current, input());
+    if (published.success) {
+      window.location.href = link("/posts/mine");
+    } else {
+      setResult("Failed to publish: " + published.error);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!postId.current) return;
+
+    const archived = await archivePost(postId.current);
+    if (archived.success) {
+      window.location.href = link("/posts/mine");
+    } else {
+      setResult("Failed to archive: " + archived.error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          {post ? "Edit post" : "New post"}
+          <span className="text-sm font-normal text-muted-foreground">
+            {saveStatus === "saving" && "Saving..."}
+            {saveStatus === "saved" && !dirty && "Draft saved"}
+            {saveStatus === "error" && "Couldn't save draft"}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            startTransition(() => void handlePublish());
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="postTitle">Title</Label>
+            <Input
+              id="postTitle"
+              value={title}
+              onChange={(e) => change(setTitle)(e.target.value)}
+              placeholder="What's happening on the water?"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="postCategory">Category</Label>
+            <Select value={category} onValueChange={change(setCategory)}>
+              <SelectTrigger id="postCategory" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.slug} value={category.slug}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="postContent">Post</Label>
+            <Textarea
+              id="postContent"
+              value={content}
+              onChange={(e) => change(setContent)(e.target.value)}
+              rows={12}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {status === "PUBLISHED" ? (
+              <Button type="button" onClick={() => startTransition(() => void handleSave())} disabled={isPending}>
+                {isPending ? "Saving..." : "Save changes"}
+              </Button>
+            ) : (
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Publishing..." : "Publish"}
+              </Button>
+            )}
+            {status === "ARCHIVED" && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => startTransition(() => void handleSave())}
+                disabled={isPending}
+              >
+                Save without publishing
+              </Button>
+            )}
+            {post && status !== "ARCHIVED" && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => startTransition(() => void handleArchive())}
+                disabled={isPending}
+              >
+                Archive
+              </Button>
+            )}
+            <Button type="button" variant="ghost" asChild>
+              <a href={link("/posts/mine")}>My posts</a>
+            </Button>
+          </div>
+        </form>
+
+        {result && (
+          <div
+            className={`mt-4 p-3 rounded-md ${
+              result.includes("success") ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+            }`}
+          >
+            {result}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { deletePost } from "../functions";
+import { Button } from "@/app/components/ui/button";
+import { link } from "@/app/shared/links";
+
+export function PostRowActions({ postId, title }: { postId: string; title: string }) {
+  const [isPending, startTransition] = useTransition();
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${title}"? This can't be undone.`)) return;
+
+    const result = await deletePost(postId);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      toast.error("Failed to delete post: " + result.error);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" asChild>
+        <a href={link("/posts/:postId/edit", { postId })}>Edit</a>
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-red-600 hover:text-red-700"
+        onClick={() => startTransition(() => void handleDelete())}
+        disabled={isPending}
+      >
+        Delete
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { db } from "@/db";
+import { getCategoryLabels } from "./postCategories";
+import type { CategoryOption } from "./categories";
+
+// The community feed: published posts, newest first, a page at a time.
+// Pages are keyed by the last post's ID rather than an offset, so posts
+// published while someone is scrolling don't shift later pages.
+
+export const FEED_PAGE_SIZE = 10;
+
+export type FeedAuthor = {
+  username: string | null;
+  name: string;
+  avatarUrl: string | null;
+};
+
+export type FeedPost = {
+  id: string;
+  title: string;
+  content: string;
+  category: CategoryOption | null;
+  publishedAt: string;
+  comments: number;
+  kudos: number;
+  // Whether the signed-in viewer has given kudos; always false when signed out
+  hasGivenKudos: boolean;
+  author: FeedAuthor;
+};
+
+export type FeedQuery = {
+  cursor?: string | null;
+  // Category slug from the feed filter
+  category?: string;
+  viewerId?: string | null;
+};
+
+export type FeedPage = {
+  posts: FeedPost[];
+  nextCursor: string | null;
+};
+
+// Posts outlive their author's account; never show what's left of it
+export function toFeedAuthor(user: {
+  username: string;
+  deletedAt: Date | null;
+  profile: { name: string | null; profilePicture: string | null } | null;
+}): FeedAuthor {
+  if (user.deletedAt) {
+    return { username: null, name: "Deleted user", avatarUrl: null };
+  }
+
+  return {
+    username: user.username,
+    name: user.profile?.name || user.username,
+    avatarUrl: user.profile?.profilePicture || null,
+  };
+}
+
+// Counts come from the same query as the posts, and the viewer's own kudos
+// from a filtered include, so a page costs a fixed number of queries.
+// Deleted comments don't count, even while their replies keep them in the
+// thread.
+function feedInclude(viewerId?: string | null) {
+  return {
+    user: {
+      select: {
+        username: true,
+        deletedAt: true,
+        profile: { select: { name: true, profilePicture: true } },
+      },
+    },
+    _count: { select: { comments: { where: { deletedAt: null } }, kudos: true } },
+    ...(viewerId ? { kudos: { where: { userId: viewerId }, select: { id: true } } } : {}),
+  };
+}
+
+type FeedRow = {
+  id: string;
+  title: string;
+  content: string;
+  category: string | null;
+  publishedAt: Date | null;
+  createdAt: Date;
+  _count: { comments: number; kudos: number };
+  kudos?: { id: string }[];
+  user: Parameters<typeof toFeedAuthor>[0];
+};
+
+function toFeedPost(post: FeedRow, labelFor: (slug: string) => string): FeedPost {
+  return {
+    id: post.id,
+    title: post.title,
+    content: post.content,
+    category: post.category ? { slug: post.category, label: labelFor(post.category) } : null,
+    publishedAt: (post.publishedAt ?? post.createdAt).toISOString(),
+    comments: post._count.comments,
+    kudos: post._count.kudos,
+    hasGivenKudos: !!post.kudos?.length,
+    author: toFeedAuthor(post.user),
+  };
+}
+
+export async function listPublishedPosts({
+  cursor,
+  category,
+  viewerId,
+}: FeedQuery = {}): Promise<FeedPage> {
+  const posts = await db.post.findMany({
+    where: { status: "PUBLISHED", ...(category ? { category } : {}) },
+    orderBy: [{ publishedAt: "desc" }, { id: "desc" }],
+    // One extra tells us whether there's another page
+    take: FEED_PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    include: feedInclude(viewerId),
+  });
+
+  const page = posts.slice(0, FEED_PAGE_SIZE);
+  const labelFor = await getCategoryLabels(
+    page.flatMap((post) => (post.category ? [post.category] : []))
+  );
+
+  return {
+    posts: page.map((post) => toFeedPost(post, labelFor)),
+    nextCursor: posts.length > FEED_PAGE_SIZE ? page[page.length - 1].id : null,
+  };
+}
+
+// One post for its own page, shaped like a feed entry; null unless published
+export async function getPublishedPost(postId: string, viewerId?: string | null) {
+  const post = await db.post.findFirst({
+    where: { id: postId, status: "PUBLISHED" },
+    include: feedInclude(viewerId),
+  });
+  if (!post) return null;
+
+  const labelFor = await getCategoryLabels(post.category ? [post.category] : []);
+  return toFeedPost(post, labelFor);
+}
@@ -0,0 +1,343 @@
+"use server";
+
+import { requestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { requireUser } from "@/app/auth/authorization";
+import { listPublishedPosts, toFeedAuthor } from "./feed";
+import { getCategoriesForAuthor } from "./postCategories";
+import { COMMENT_MAX_LENGTH, listComments } from "./comments";
+
+const POST_TITLE_MAX_LENGTH = 200;
+const POST_CONTENT_MAX_LENGTH = 20000;
+
+export type PostInput = {
+  title: string;
+  content: string;
+  category: string | null;
+};
+
+// The feed is public, so anyone may page through it
+export async function loadMorePosts(cursor: string, category?: string) {
+  try {
+    return await listPublishedPosts({ cursor, category, viewerId: requestInfo.ctx.user?.id });
+  } catch (error) {
+    console.error("Error loading posts:", error);
+    return null;
+  }
+}
+
+// Authors only ever see and change their own posts; someone else's post is
+// reported as missing rather than forbidden
+async function findOwnPost(postId: string) {
+  const user = requireUser();
+  const post = await db.post.findUnique({ where: { id: postId } });
+  return post && post.userId === user.id ? post : null;
+}
+
+// Drafts may be incomplete; anything published needs a title and content.
+// The category must be one the author can use, or the one the post already
+// has (an organization category stays on posts after the author leaves).
+async function validatePostInput(
+  input: PostInput,
+  options: { authorId: string; publishing: boolean; currentCategory?: string | null }
+) {
+  const title = input.title.trim();
+  const content = input.content.trim();
+
+  if (title.length > POST_TITLE_MAX_LENGTH) {
+    return { error: `Title must be at most ${POST_TITLE_MAX_LENGTH} characters` };
+  }
+  if (content.length > POST_CONTENT_MAX_LENGTH) {
+    return { error: `Post must be at most ${POST_CONTENT_MAX_LENGTH} characters` };
+  }
+  if (input.category && input.category !== options.currentCategory) {
+    const categories = await getCategoriesForAuthor(options.authorId);
+    if (!categories.some((category) => category.slug === input.category)) {
+      return { error: "Invalid category" };
+    }
+  }
+  if (options.publishing && (!title || !content)) {
+    return { error: "Add a title and some content before publishing" };
+  }
+
+  return { data: { title, content, category: input.category || null } };
+}
+
+export async function createDraft(input: PostInput) {
+  const user = requireUser();
+
+  const validated = await validatePostInput(input, { authorId: user.id, publishing: false });
+  if ("error" in validated) {
+    return { success: false, error: validated.error };
+  }
+
+  try {
+    const post = await db.post.create({
+      data: { ...validated.data, userId: user.id, status: "DRAFT" },
+    });
+    return { success: true, postId: post.id };
+  } catch (error) {
+    console.error("Error creating draft:", error);
+    return { success: false, error: "Failed to save draft" };
+  }
+}
+
+// Autosave for drafts, and explicit saves for published or archived posts
+export async function savePost(postId: string, input: PostInput) {
+  const post = await findOwnPost(postId);
+  if (!post) {
+    return { success: false, error: "Post not found" };
+  }
+
+  const validated = await validatePostInput(input, {
+    authorId: post.userId,
+    publishing: post.status === "PUBLISHED",
+    currentCategory: post.category,
+  });
+  if ("error" in validated) {
+    return { success: false, error: validated.error };
+  }
+
+  try {
+    await db.post.update({ where: { id: postId }, data: validated.data });
+    return { success: true };
+  } catch (error) {
+    console.error("Error saving post:", error);
+    return { success: false, error: "Failed to save post" };
+  }
+}
+
+// Saves and publishes in one step. Republishing an archived post keeps its
+// original publication date.
+export async function publishPost(postId: string, input: PostInput) {
+  const post = await findOwnPost(postId);
+  if (!post) {
+    return { success: false, error: "Post not found" };
+  }
+
+  const validated = await validatePostInput(input, {
+    authorId: post.userId,
+    publishing: true,
+    currentCategory: post.category,
+  });
+  if ("error" in validated) {
+    return { success: false, error: validated.error };
+  }
+
+  try {
+    await db.post.update({
+      where: { id: postId },
+      data: {
+        ...validated.data,
+        status: "PUBLISHED",
+        publishedAt: post.publishedAt ?? new Date(),
+      },
+    });
+    return { success: true };
+  } catch (error) {
+    console.error("Error publishing post:", error);
+    return { success: false, error: "Failed to publish post" };
+  }
+}
+
+// Takes a post out of the feed without deleting it
+export async function archivePost(postId: string) {
+  const post = await findOwnPost(postId);
+  if (!post) {
+    return { success: false, error: "Post not found" };
+  }
+
+  try {
+    await db.post.update({ where: { id: postId }, data: { status: "ARCHIVED" } });
+    return { success: true };
+  } catch (error) {
+    console.error("Error archiving post:", error);
+    return { success: false, error: "Failed to archive post" };
+  }
+}
+
+export async function deletePost(postId: string) {
+  const post = await findOwnPost(postId);
+  if (!post) {
+    return { success: false, error: "Post not found" };
+  }
+
+  try {
+    await db.post.delete({ where: { id: postId } });
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting post:", error);
+    return { success: false, error: "Failed to delete post" };
+  }
+}
+
+// Give kudos, or take it back if already given. Returns the new state so the
+// card can settle its optimistic update.
+export async function toggleKudos(postId: string) {
+  const user = requireUser();
+
+  try {
+    const post = await db.post.findUnique({
+      where: { id: postId },
+      select: { status: true },
+    });
+    if (!post || post.status !== "PUBLISHED") {
+      return { success: false, error: "Post not found" };
+    }
+
+    const existing = await db.kudos.findUnique({
+      where: { userId_postId: { userId: user.id, postId } },
+    });
+
+    if (existing) {
+      // deleteMany, so a double click that already removed it isn't an error
+      await db.kudos.deleteMany({ where: { userId: user.id, postId } });
+    } else {
+      await db.kudos.upsert({
+        where: { userId_postId: { userId: user.id, postId } },
+        create: { userId: user.id, postId },
+        update: {},
+      });
+    }
+
+    const count = await db.kudos.count({ where: { postId } });
+    return { success: true, given: !existing, count };
+  } catch (error) {
+    console.error("Error toggling kudos:", error);
+    return { success: false, error: "Failed to update kudos" };
+  }
+}
+
+const KUDOS_GIVERS_LIMIT = 50;
+
+// Who gave kudos, most recent first. Public like the feed itself.
+export async function getKudosGivers(postId: string) {
+  try {
+    const kudos = await db.kudos.findMany({
+      where: { postId, post: { status: "PUBLISHED" } },
+      orderBy: { createdAt: "desc" },
+      take: KUDOS_GIVERS_LIMIT,
+      include: {
+        user: {
+          select: {
+            username: true,
+            deletedAt: true,
+            profile: { select: { name: true, profilePicture: true } },
+          },
+        },
+      },
+    });
+
+    return kudos.map((entry) => toFeedAuthor(entry.user));
+  } catch (error) {
+    console.error("Error loading kudos:", error);
+    return null;
+  }
+}
+
+function validateCommentContent(content: string) {
+  const text = content.trim();
+  if (!text) {
+    return { error: "Write something first" };
+  }
+  if (text.length > COMMENT_MAX_LENGTH) {
+    return { error: `Comment must be at most ${COMMENT_MAX_LENGTH} characters` };
+  }
+  return { content: text };
+}
+
+// Like posts, someone else's comment is reported as missing. Deleted
+// comments and comments on posts that are no longer published can't change.
+async function findOwnComment(commentId: string) {
+  const user = requireUser();
+  const comment = await db.comment.findUnique({
+    where: { id: commentId },
+    include: { post: { select: { status: true } } },
+  });
+
+  if (!comment || comment.userId !== user.id || comment.deletedAt || comment.post.status !== "PUBLISHED") {
+    return null;
+  }
+  return comment;
+}
+
+// Comment changes return the whole thread, so the page also picks up what
+// others have written since it loaded
+export async function addComment(postId: string, content: string, parentId: string | null = null) {
+  const user = requireUser();
+
+  const validated = validateCommentContent(content);
+  if ("error" in validated) {
+    return { success: false, error: validated.error };
+  }
+
+  try {
+    const post = await db.post.findUnique({
+      where: { id: postId },
+      select: { status: true },
+    });
+    if (!post || post.status !== "PUBLISHED") {
+      return { success: false, error: "Post not found" };
+    }
+
+    if (parentId) {
+      const parent = await db.comment.findUnique({
+        where: { id: parentId },
+        select: { postId: true, deletedAt: true },
+      });
+      if (!parent || parent.postId !== postId || parent.deletedAt) {
+        return { success: false, error: "Comment not found" };
+      }
+    }
+
+    await db.comment.create({
+      data: { postId, parentId, userId: user.id, content: validated.content },
+    });
+    return { success: true, comments: await listComments(postId, user.id) };
+  } catch (error) {
+    console.error("Error adding comment:", error);
+    return { success: false, error: "Failed to add comment" };
+  }
+}
+
+export async function editComment(commentId: string, content: string) {
+  const comment = await findOwnComment(commentId);
+  if (!comment) {
+    return { success: false, error: "Comment not found" };
+  }
+
+  const validated = validateCommentContent(content);
+  if ("error" in validated) {
+    return { success: false, error: validated.error };
+  }
+
+  try {
+    await db.comment.update({
+      where: { id: commentId },
+      data: { content: validated.content, editedAt: new Date() },
+    });
+    return { success: true, comments: await listComments(comment.postId, comment.userId) };
+  } catch (error) {
+    console.error("Error editing comment:", error);
+    return { success: false, error: "Failed to edit comment" };
+  }
+}
+
+// The text goes, but the row stays so replies keep their place
+export async function deleteComment(commentId: string) {
+  const comment = await findOwnComment(commentId);
+  if (!comment) {
+    return { success: false, error: "Comment not found" };
+  }
+
+  try {
+    await db.comment.update({
+      where: { id: commentId },
+      data: { content: "", deletedAt: new Date() },
+    });
+    return { success: true, comments: await listComments(comment.postId, comment.userId) };
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return { success: false, error: "Failed to delete comment" };
+  }
+}
@@ -0,0 +1,91 @@
+import { db } from "@/db";
+import {
+  BUILT_IN_CATEGORIES,
+  fallbackCategoryLabel,
+  isBuiltInCategory,
+  type CategoryOption,
+} from "./categories";
+
+// Server-only category lookups. Organization categories are stored per
+// organization but filtered by slug, so the same slug from two organizations
+// is one category here.
+
+export type CategoryCount = CategoryOption & { count: number };
+
+function uniqueBySlug(categories: CategoryOption[]) {
+  const seen = new Set<string>();
+  return categories.filter((category) => {
+    if (seen.has(category.slug)) return false;
+    seen.add(category.slug);
+    return true;
+  });
+}
+
+// What an author may file a post under: the built-ins plus the categories of
+// every organization they belong to
+export async function getCategoriesForAuthor(userId: string): Promise<CategoryOption[]> {
+  const categories = await db.organizationCategory.findMany({
+    where: { organization: { members: { some: { userId } } } },
+    orderBy: { name: "asc" },
+    select: { slug: true, name: true },
+  });
+
+  return uniqueBySlug([
+    ...BUILT_IN_CATEGORIES,
+    ...categories.map((category) => ({ slug: category.slug, label: category.name })),
+  ]);
+}
+
+export async function getCategoryLabels(slugs: string[]) {
+  const labels = new Map<string, string>(
+    BUILT_IN_CATEGORIES.map((category) => [category.slug, category.label])
+  );
+
+  const custom = [...new Set(slugs)].filter((slug) => !isBuiltInCategory(slug));
+  if (custom.length > 0) {
+    const categories = await db.organizationCategory.findMany({
+      where: { slug: { in: custom } },
+      orderBy: { createdAt: "asc" },
+      select: { slug: true, name: true },
+    });
+    for (const category of categories) {
+      if (!labels.has(category.slug)) {
+        labels.set(category.slug, category.name);
+      }
+    }
+  }
+
+  return (slug: string) => labels.get(slug) ?? fallbackCategoryLabel(slug);
+}
+
+// Options for the feed filter: every built-in category, and any other
+// category with published posts, each with its number of published posts
+export async function getFeedCategoryCounts(): Promise<{ total: number; categories: CategoryCount[] }> {
+  const groups = await db.post.groupBy({
+    by: ["category"],
+    where: { status: "PUBLISHED" },
+    _count: { _all: true },
+  });
+
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const group of groups) {
+    total += group._count._all;
+    if (group.category) {
+      counts.set(group.category, group._count._all);
+    }
+  }
+
+  const custom = [...counts.keys()].filter((slug) => !isBuiltInCategory(slug));
+  const labelFor = await getCategoryLabels(custom);
+
+  return {
+    total,
+    categories: [
+      ...BUILT_IN_CATEGORIES.map((category) => ({ ...category, count: counts.get(category.slug) ?? 0 })),
+      ...custom
+        .map((slug) => ({ slug, label: labelFor(slug), count: counts.get(slug)! }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ],
+  };
+}
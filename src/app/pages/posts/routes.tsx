@@ -0,0 +1,12 @@
+import { route } from "rwsdk/router";
+import { isAuthenticated } from "@/app/interceptors";
+import MyPosts from "./MyPosts";
+import PostComposerPage from "./PostComposerPage";
+import PostPage from "./PostPage";
+
+export const postRoutes = [
+  route("/mine", [isAuthenticated, MyPosts]),
+  route("/new", [isAuthenticated, PostComposerPage]),
+  route("/:postId/edit", [isAuthenticated, PostComposerPage]),
+  route("/:postId", PostPage),
+];
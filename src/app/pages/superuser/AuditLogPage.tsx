@@ -0,0 +1,98 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { AuditLogTable } from "@/app/components/AuditLogTable";
+import { link } from "@/app/shared/links";
+import { AUDIT_PAGE_SIZE, listAuditLogs, parseAuditLogFilters } from "@/audit/query";
+
+// Every privileged action across the site, filterable by the query string
+export default async function AuditLogPage(props: RequestInfo) {
+  const url = new URL(props.request.url);
+  const { page, ...filters } = parseAuditLogFilters(url);
+  const { total, entries } = await listAuditLogs(filters, page);
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams(url.searchParams);
+    params.set("page", String(target));
+    return `${link("/superuser/audit")}?${params}`;
+  };
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <a href={link("/superuser/dashboard")} className="text-sm text-gray-600 hover:underline">
+            &larr; Dashboard
+          </a>
+          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600 mt-1">
+            {total} entries
+            {filters.organizationId && (entries[0]?.organizationName
+              ? ` for ${entries[0].organizationName}`
+              : " for one organization")}
+          </p>
+        </div>
+
+        <form method="get" action={link("/superuser/audit")} className="mb-6 grid gap-4 sm:grid-cols-3 lg:grid-cols-6 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="action">Action</Label>
+            <Input id="action" name="action" defaultValue={filters.action} placeholder="e.g. membership." />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="actor">Actor username</Label>
+            <Input id="actor" name="actor" defaultValue={filters.actor} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target">Target ID</Label>
+            <Input id="target" name="target" defaultValue={filters.targetId} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="from">From</Label>
+            <Input id="from" name="from" type="date" defaultValue={url.searchParams.get("from") ?? ""} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="to">To</Label>
+            <Input id="to" name="to" type="date" defaultValue={url.searchParams.get("to") ?? ""} />
+          </div>
+          <div className="flex gap-2">
+            {filters.organizationId && (
+              <input type="hidden" name="organization" value={filters.organizationId} />
+            )}
+            <Button type="submit">Filter</Button>
+            <Button variant="outline" asChild>
+              <a href={link("/superuser/audit")}>Clear</a>
+            </Button>
+          </div>
+        </form>
+
+        <Card>
+          <CardContent className="p-0">
+            <AuditLogTable entries={entries} showOrganization showIp />
+          </CardContent>
+        </Card>
+
+        {pageCount > 1 && (
+          <div className="mt-4 flex items-center justify-between">
+            <p className="text-sm text-gray-600">Page {page} of {pageCount}</p>
+            <div className="flex gap-2">
+              {page > 1 && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={pageHref(page - 1)}>Previous</a>
+                </Button>
+              )}
+              {page < pageCount && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={pageHref(page + 1)}>Next</a>
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </HomeLayout>
+  );
+}
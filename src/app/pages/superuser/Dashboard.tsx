@@ -11,6 +11,7 @@ import {
 } from "@/app/components/ui/table";
 import { Eye, Edit } from "lucide-react";
 import { RequestInfo } from "rwsdk/worker";
+import { link } from "@/app/shared/links";
 import CreateOrganizationDialog from "./CreateOrganizationDialog";
 import DeleteOrganizationDialog from "./DeleteOrganizationDialog";
 import { getOrganizationsForDisplay } from "./functions";
@@ -54,9 +55,23 @@ export default async function Dashboard(props: RequestInfo) {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-sm text-gray-600">
-                Coming soon: User management features
-              </p>
+              <Button variant="outline" asChild>
+                <a href={link("/superuser/users")}>Manage users</a>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Audit Log</CardTitle>
+              <CardDescription>
+                Who changed what, and when
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" asChild>
+                <a href={link("/superuser/audit")}>View audit log</a>
+              </Button>
             </CardContent>
           </Card>
 
@@ -114,7 +129,6 @@ export default async function Dashboard(props: RequestInfo) {
           {/* Organizations Table */}
           <Card>
             <CardContent className="p-0">
-              {/* Mock data - will be replaced with real data later */}
               {organizations.length === 0 ? (
                 <div className="p-8 text-center">
                   <div className="mx-auto max-w-sm">
@@ -146,18 +160,29 @@ export default async function Dashboard(props: RequestInfo) {
                   <TableBody>
                     {organizations.map((org: any) => (
                       <TableRow key={org.id}>
-                        <TableCell className="font-medium">{org.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <a
+                            href={link("/superuser/organizations/:organizationId", { organizationId: org.id })}
+                            className="hover:underline"
+                          >
+                            {org.name}
+                          </a>
+                        </TableCell>
                         <TableCell>{org.memberCount}</TableCell>
                         <TableCell>{org.owner}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
-                            <Button variant="ghost" size="sm">
-                              <Eye className="h-4 w-4" />
-                              <span className="sr-only">View organization</span>
+                            <Button variant="ghost" size="sm" asChild>
+                              <a href={link("/superuser/organizations/:organizationId", { organizationId: org.id })}>
+                                <Eye className="h-4 w-4" />
+                                <span className="sr-only">View organization</span>
+                              </a>
                             </Button>
-                            <Button variant="ghost" size="sm">
-                              <Edit className="h-4 w-4" />
-                              <span className="sr-only">Edit organization</span>
+                            <Button variant="ghost" size="sm" asChild>
+                              <a href={`${link("/superuser/organizations/:organizationId", { organizationId: org.id })}#edit`}>
+                                <Edit className="h-4 w-4" />
+                                <span className="sr-only">Edit organization</span>
+                              </a>
                             </Button>
                             <DeleteOrganizationDialog
                               organization={{
@@ -23,11 +23,14 @@ interface DeleteOrganizationDialogProps {
     memberCount: number;
   };
   trigger?: React.ReactNode;
+  // Where to go afterwards, e.g. when deleting from the organization's own page
+  redirectTo?: string;
 }
 
 export default function DeleteOrganizationDialog({
   organization,
-  trigger
+  trigger,
+  redirectTo
 }: DeleteOrganizationDialogProps) {
   const [isClient, setIsClient] = useState(false);
   const [open, setOpen] = useState(false);
@@ -63,6 +66,10 @@ export default function DeleteOrganizationDialog({
           : "";
 
         toast.success(`Organization "${organization.name}" deleted successfully!${memberMessage}`);
+
+        if (redirectTo) {
+          window.location.href = redirectTo;
+        }
       } else {
         toast.error(result.error || "Failed to delete organization. Please try again.");
       }
@@ -0,0 +1,201 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { Badge } from "@/app/components/ui/badge";
+import { ArrowLeft } from "lucide-react";
+import { link } from "@/app/shared/links";
+import { db } from "@/db";
+import { getOrganization } from "./functions";
+import { getInvitationStatus } from "./organizations";
+import DeleteOrganizationDialog from "./DeleteOrganizationDialog";
+import { OrganizationDetailsForm } from "@/app/pages/org/components/OrganizationDetailsForm";
+import { MemberTable } from "@/app/pages/org/components/MemberTable";
+import { InvitationManager } from "@/app/pages/org/components/InvitationManager";
+import { toInvitationSummaries, toMemberSummaries } from "@/app/pages/org/summaries";
+
+type ActivityItem = { at: Date; text: string };
+
+// Invitation outcomes with a known date; declines aren't timestamped
+const INVITATION_OUTCOMES: Record<string, string> = {
+  ACCEPTED: "accepted an invitation",
+  EXPIRED: "let an invitation expire",
+};
+
+// Full view of one organization for SUPERUSERs, reached from the Dashboard.
+// Reuses the club console components; their server functions let SUPERUSERs through.
+export default async function OrganizationDetails(props: RequestInfo) {
+  const { organizationId } = props.params;
+  const organization = await getOrganization(organizationId);
+
+  if (!organization) {
+    return new Response("Organization not found", { status: 404 });
+  }
+
+  const invitations = (
+    await db.organizationInvitation.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "desc" },
+      take: 50
+    })
+  ).map((invitation) => ({ ...invitation, status: getInvitationStatus(invitation) }));
+
+  const members = toMemberSummaries(organization);
+  const roleCounts = members.reduce<Record<string, number>>((acc, member) => {
+    acc[member.role] = (acc[member.role] ?? 0) + 1;
+    return acc;
+  }, {});
+  const acceptedCount = invitations.filter((invitation) => invitation.status === "ACCEPTED").length;
+
+  // Recent joins and invitation outcomes, newest first
+  const activity: ActivityItem[] = [
+    ...members.map((member) => ({
+      at: new Date(member.joinedAt),
+      text: `${member.username} joined as ${member.role}`,
+    })),
+    ...invitations.map((invitation) => ({
+      at: invitation.createdAt,
+      text: `${invitation.email} was invited as ${invitation.role}${
+        invitation.status === "REJECTED" ? " (declined)" : ""
+      }`,
+    })),
+    ...invitations
+      .filter((invitation) => INVITATION_OUTCOMES[invitation.status])
+      .map((invitation) => ({
+        at: invitation.acceptedAt ?? invitation.expiresAt,
+        text: `${invitation.email} ${INVITATION_OUTCOMES[invitation.status]}`,
+      })),
+  ]
+    .sort((a, b) => b.at.getTime() - a.at.getTime())
+    .slice(0, 20);
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+              <a href={link("/superuser/dashboard")}>
+                <ArrowLeft className="h-4 w-4" />
+                Dashboard
+              </a>
+            </Button>
+            <h1 className="text-3xl font-bold text-gray-900">{organization.name}</h1>
+            <p className="text-gray-600 mt-1">
+              Created {organization.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+          <DeleteOrganizationDialog
+            organization={{
+              id: organization.id,
+              name: organization.name,
+              memberCount: members.length
+            }}
+            redirectTo={link("/superuser/dashboard")}
+          />
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-4">
+          <Card>
+            <CardHeader>
+              <CardDescription>Members</CardDescription>
+              <CardTitle className="text-3xl">{members.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>Admins / Coaches</CardDescription>
+              <CardTitle className="text-3xl">
+                {roleCounts.ADMIN ?? 0} / {roleCounts.COACH ?? 0}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>Pending invitations</CardDescription>
+              <CardTitle className="text-3xl">{organization.invitations.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardDescription>Invitations accepted</CardDescription>
+              <CardTitle className="text-3xl">{acceptedCount}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <div id="edit">
+          <OrganizationDetailsForm
+            organization={{
+              id: organization.id,
+              name: organization.name,
+              description: organization.description,
+            }}
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>
+              {roleCounts.ADMIN ? "Change roles or remove people from the club" : (
+                <Badge variant="destructive">No admin assigned</Badge>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MemberTable
+              organizationId={organizationId}
+              members={members}
+              currentUserId={props.ctx.user!.id}
+              editable
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>Invite the first admin or new members by email</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <InvitationManager
+              organizationId={organizationId}
+              invitations={toInvitationSummaries(organization)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Activity</CardTitle>
+            <CardDescription>
+              <a
+                href={`${link("/superuser/audit")}?organization=${organizationId}`}
+                className="underline underline-offset-4"
+              >
+                Full audit log for this organization
+              </a>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activity.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing has happened yet.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {activity.map((item, index) => (
+                  <li key={index} className="flex justify-between gap-4">
+                    <span>{item.text}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {item.at.toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </HomeLayout>
+  );
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { db } from '@/db'
+import { acceptInvitation, expireStaleInvitations, getInvitationStatus, rejectInvitation } from '../organizations'
+
+vi.mock('@/db', () => ({
+  db: {
+    organizationInvitation: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    organizationMembership: { findFirst: vi.fn(), create: vi.fn() },
+    user: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}))
+
+vi.mock('@/audit/log', () => ({ recordAudit: vi.fn() }))
+
+vi.mock('@/app/auth/email', () => ({ sendTemplateEmail: vi.fn() }))
+
+function pendingInvitation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'invitation-1',
+    organizationId: 'org-1',
+    email: 'Erik@Example.com',
+    role: 'ADMIN',
+    status: 'PENDING',
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  }
+}
+
+describe('Organization invitations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.organizationMembership.findFirst).mockResolvedValue(null)
+    vi.mocked(db.organizationMembership.create).mockResolvedValue({ id: 'membership-1' } as never)
+  })
+
+  describe('acceptInvitation', () => {
+    it('should let the invited address accept, whatever its case', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation() as never)
+      vi.mocked(db.user.findUnique).mockResolvedValue({ email: 'erik@example.com', emailVerifiedAt: new Date() } as never)
+
+      const result = await acceptInvitation('token', 'user-1')
+
+      expect(result).toEqual({ success: true })
+      expect(db.organizationMembership.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', organizationId: 'org-1', role: 'ADMIN' },
+      })
+    })
+
+    it('should not let a verified account with another address accept', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation() as never)
+      vi.mocked(db.user.findUnique).mockResolvedValue({ email: 'someone@example.com', emailVerifiedAt: new Date() } as never)
+
+      const result = await acceptInvitation('token', 'user-1')
+
+      expect(result).toEqual({ success: false, error: 'This invitation was sent to a different email address' })
+      expect(db.organizationMembership.create).not.toHaveBeenCalled()
+      expect(db.organizationInvitation.update).not.toHaveBeenCalled()
+    })
+
+    it('should not let an unverified account accept or mark it verified', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation() as never)
+      vi.mocked(db.user.findUnique).mockResolvedValue({ email: 'erik@example.com', emailVerifiedAt: null } as never)
+
+      const result = await acceptInvitation('token', 'user-1')
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Verify your email address before accepting this invitation',
+        needsVerification: true,
+      })
+      expect(db.user.update).not.toHaveBeenCalled()
+      expect(db.organizationMembership.create).not.toHaveBeenCalled()
+      expect(db.organizationInvitation.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject expired invitations that are still marked pending', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(
+        pendingInvitation({ expiresAt: new Date(Date.now() - 60_000) }) as never
+      )
+
+      const result = await acceptInvitation('token', 'user-1')
+
+      expect(result.success).toBe(false)
+      expect(db.organizationMembership.create).not.toHaveBeenCalled()
+    })
+
+    it('should mark the invitation expired before reading it', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation({ status: 'EXPIRED' }) as never)
+
+      const result = await acceptInvitation('token', 'user-1')
+
+      expect(result).toEqual({ success: false, error: 'Invitation not found or expired' })
+      expect(db.organizationInvitation.updateMany).toHaveBeenCalledWith({
+        where: { token: 'token', status: 'PENDING', expiresAt: { lt: expect.any(Date) } },
+        data: { status: 'EXPIRED' },
+      })
+    })
+  })
+
+  describe('rejectInvitation', () => {
+    it('should let a signed-out visitor holding the link decline', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation() as never)
+
+      const result = await rejectInvitation('token')
+
+      expect(result).toEqual({ success: true })
+      expect(db.organizationInvitation.update).toHaveBeenCalledWith({
+        where: { id: 'invitation-1' },
+        data: { status: 'REJECTED' },
+      })
+    })
+
+    it('should let the invited address decline when signed in', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation() as never)
+
+      const result = await rejectInvitation('token', { id: 'user-1', email: 'erik@example.com' })
+
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should not let a signed-in user with another address decline', async () => {
+      vi.mocked(db.organizationInvitation.findUnique).mockResolvedValue(pendingInvitation() as never)
+
+      const result = await rejectInvitation('token', { id: 'user-1', email: 'someone@example.com' })
+
+      expect(result).toEqual({ success: false, error: 'This invitation was sent to a different email address' })
+      expect(db.organizationInvitation.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('expireStaleInvitations', () => {
+    it('should only touch pending invitations past their expiry within the given scope', async () => {
+      await expireStaleInvitations({ organizationId: 'org-1' })
+
+      expect(db.organizationInvitation.updateMany).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1', status: 'PENDING', expiresAt: { lt: expect.any(Date) } },
+        data: { status: 'EXPIRED' },
+      })
+    })
+  })
+
+  describe('getInvitationStatus', () => {
+    it('should report pending invitations past their expiry as expired', () => {
+      expect(getInvitationStatus(pendingInvitation({ expiresAt: new Date(Date.now() - 1) }))).toBe('EXPIRED')
+      expect(getInvitationStatus(pendingInvitation())).toBe('PENDING')
+      expect(getInvitationStatus(pendingInvitation({ status: 'ACCEPTED', expiresAt: new Date(0) }))).toBe('ACCEPTED')
+    })
+  })
+})
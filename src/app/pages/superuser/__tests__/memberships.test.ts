@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { db } from '@/db'
+import { recordAudit } from '@/audit/log'
+import { removeMemberFromOrganization, updateMemberRole } from '../organizations'
+
+vi.mock('@/db', () => ({
+  db: {
+    organizationMembership: { findFirst: vi.fn() },
+    $executeRaw: vi.fn(),
+  },
+}))
+
+vi.mock('@/audit/log', () => ({ recordAudit: vi.fn() }))
+
+vi.mock('@/app/auth/email', () => ({ sendTemplateEmail: vi.fn() }))
+
+const adminMembership = { id: 'membership-1', userId: 'user-1', organizationId: 'org-1', role: 'ADMIN' }
+
+// The SQL text of the last raw statement, without its parameters
+function lastStatement() {
+  const [strings] = vi.mocked(db.$executeRaw).mock.lastCall as unknown as [TemplateStringsArray]
+  return strings.join('?')
+}
+
+describe('Organization memberships', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.organizationMembership.findFirst).mockResolvedValue(adminMembership as never)
+  })
+
+  describe('updateMemberRole', () => {
+    it('should count the remaining admins in the same statement that changes the role', async () => {
+      vi.mocked(db.$executeRaw).mockResolvedValue(1 as never)
+
+      const result = await updateMemberRole('org-1', 'user-1', 'MEMBER')
+
+      expect(result).toEqual({ success: true })
+      expect(lastStatement()).toMatch(/UPDATE "OrganizationMembership"[\s\S]*SELECT COUNT\(\*\)/)
+      expect(recordAudit).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'membership.role_changed',
+        before: { role: 'ADMIN' },
+        after: { role: 'MEMBER' },
+      }))
+    })
+
+    it('should refuse to demote when another demotion took the last other admin first', async () => {
+      // The read still sees two admins; the guarded write finds only one
+      vi.mocked(db.$executeRaw).mockResolvedValue(0 as never)
+
+      const result = await updateMemberRole('org-1', 'user-1', 'MEMBER')
+
+      expect(result).toEqual({
+        success: false,
+        error: 'The organization needs at least one admin. Promote someone else first.',
+      })
+      expect(recordAudit).not.toHaveBeenCalled()
+    })
+
+    it('should report members that are not in the organization', async () => {
+      vi.mocked(db.organizationMembership.findFirst).mockResolvedValue(null)
+
+      const result = await updateMemberRole('org-1', 'user-1', 'MEMBER')
+
+      expect(result).toEqual({ success: false, error: 'Member not found' })
+      expect(db.$executeRaw).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('removeMemberFromOrganization', () => {
+    it('should count the remaining admins in the same statement that removes the member', async () => {
+      vi.mocked(db.$executeRaw).mockResolvedValue(1 as never)
+
+      const result = await removeMemberFromOrganization('org-1', 'user-1')
+
+      expect(result).toEqual({ success: true })
+      expect(lastStatement()).toMatch(/DELETE FROM "OrganizationMembership"[\s\S]*SELECT COUNT\(\*\)/)
+      expect(recordAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'membership.removed' }))
+    })
+
+    it('should refuse to remove the last admin even if an earlier read saw another', async () => {
+      vi.mocked(db.$executeRaw).mockResolvedValue(0 as never)
+
+      const result = await removeMemberFromOrganization('org-1', 'user-1')
+
+      expect(result).toEqual({
+        success: false,
+        error: 'The organization needs at least one admin. Promote someone else first.',
+      })
+      expect(recordAudit).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,639 @@
+import { db } from "@/db";
+import { randomBytes } from "crypto";
+import { requestInfo } from "rwsdk/worker";
+import { sendTemplateEmail } from "@/app/auth/email";
+import { recordAudit } from "@/audit/log";
+import type { OrganizationRole } from "@/app/pages/org/roles";
+
+// Server-only organization, membership and invitation functions. These take
+// IDs without checking who's asking, so they must not live in a "use server"
+// module; ./functions.ts and the org console wrap them with authorization.
+
+// Organization Management Functions
+
+export async function createOrganization(name: string, description?: string) {
+  try {
+    const organization = await db.organization.create({
+      data: {
+        name,
+        description,
+      },
+    });
+
+    await recordAudit({
+      action: "organization.created",
+      targetType: "Organization",
+      targetId: organization.id,
+      organizationId: organization.id,
+      after: { name: organization.name, description: organization.description },
+    });
+
+    return organization;
+  } catch (error) {
+    console.error("Error creating organization:", error);
+    return null;
+  }
+}
+
+export async function updateOrganization(
+  organizationId: string,
+  data: { name?: string; description?: string }
+) {
+  try {
+    const previous = await db.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true, description: true }
+    });
+
+    const organization = await db.organization.update({
+      where: { id: organizationId },
+      data,
+    });
+
+    await recordAudit({
+      action: "organization.updated",
+      targetType: "Organization",
+      targetId: organizationId,
+      organizationId,
+      before: previous,
+      after: { name: organization.name, description: organization.description },
+    });
+
+    return organization;
+  } catch (error) {
+    console.error("Error updating organization:", error);
+    return null;
+  }
+}
+
+export async function deleteOrganization(organizationId: string) {
+  try {
+    // First, get the organization to check if it exists and get member count
+    const organization = await db.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        _count: {
+          select: {
+            members: true,
+            invitations: true
+          }
+        }
+      }
+    });
+
+    if (!organization) {
+      return { success: false, error: "Organization not found" };
+    }
+
+    // Explicitly delete all memberships first (withdrawing users from organization)
+    // This ensures users remain in the system but lose their organization membership
+    await db.organizationMembership.deleteMany({
+      where: { organizationId }
+    });
+
+    // Delete all pending invitations
+    await db.organizationInvitation.deleteMany({
+      where: { organizationId }
+    });
+
+    // Finally, delete the organization itself
+    await db.organization.delete({
+      where: { id: organizationId },
+    });
+
+    await recordAudit({
+      action: "organization.deleted",
+      targetType: "Organization",
+      targetId: organizationId,
+      organizationId,
+      before: { name: organization.name, description: organization.description },
+      metadata: {
+        memberCount: organization._count.members,
+        invitationCount: organization._count.invitations
+      },
+    });
+
+    return {
+      success: true,
+      memberCount: organization._count.members,
+      invitationCount: organization._count.invitations
+    };
+  } catch (error) {
+    console.error("Error deleting organization:", error);
+    return { success: false, error: "Failed to delete organization" };
+  }
+}
+
+export async function getOrganization(organizationId: string) {
+  try {
+    await expireStaleInvitations({ organizationId });
+
+    const organization = await db.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        members: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                email: true,
+              }
+            }
+          }
+        },
+        invitations: {
+          where: {
+            status: "PENDING",
+            expiresAt: { gt: new Date() }
+          }
+        }
+      },
+    });
+    return organization;
+  } catch (error) {
+    console.error("Error fetching organization:", error);
+    return null;
+  }
+}
+
+export async function getAllOrganizations() {
+  try {
+    const organizations = await db.organization.findMany({
+      include: {
+        members: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                email: true,
+              }
+            }
+          }
+        },
+        _count: {
+          select: {
+            members: true,
+            invitations: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+    return organizations;
+  } catch (error) {
+    console.error("Error fetching organizations:", error);
+    return [];
+  }
+}
+
+// Helper function to format organizations for display
+export async function getOrganizationsForDisplay() {
+  try {
+    const organizations = await getAllOrganizations();
+
+    // Transform the data for the dashboard display
+    return organizations.map(org => {
+      // Find the admin/owner (first admin member)
+      const adminMember = org.members.find(member => member.role === "ADMIN");
+
+      return {
+        id: org.id,
+        name: org.name,
+        description: org.description,
+        memberCount: org._count.members,
+        owner: adminMember?.user.username || "No admin assigned",
+        createdAt: org.createdAt,
+        updatedAt: org.updatedAt
+      };
+    });
+  } catch (error) {
+    console.error("Error formatting organizations for display:", error);
+    return [];
+  }
+}
+
+// Membership Management Functions (SUPERUSER level)
+
+export async function addMemberToOrganization(
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole = "MEMBER"
+) {
+  try {
+    // Check if membership already exists
+    const existingMembership = await db.organizationMembership.findFirst({
+      where: {
+        userId,
+        organizationId
+      }
+    });
+
+    if (existingMembership) {
+      return null; // Already a member
+    }
+
+    const membership = await db.organizationMembership.create({
+      data: {
+        userId,
+        organizationId,
+        role,
+      },
+    });
+    return membership;
+  } catch (error) {
+    console.error("Error adding member to organization:", error);
+    return null;
+  }
+}
+
+const LAST_ADMIN_ERROR = "The organization needs at least one admin. Promote someone else first.";
+
+// An organization must always keep at least one admin. The check is part of
+// each write below rather than a read before it, so two admins demoting or
+// removing each other at the same time can't both go through.
+export async function updateMemberRole(
+  organizationId: string,
+  userId: string,
+  newRole: OrganizationRole
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const previous = await db.organizationMembership.findFirst({
+      where: {
+        userId,
+        organizationId
+      }
+    });
+
+    if (!previous) {
+      return { success: false, error: "Member not found" };
+    }
+
+    const updated = await db.$executeRaw`
+      UPDATE "OrganizationMembership" SET "role" = ${newRole}
+      WHERE "id" = ${previous.id}
+        AND (
+          ${newRole} = 'ADMIN'
+          OR "role" <> 'ADMIN'
+          OR (
+            SELECT COUNT(*) FROM "OrganizationMembership"
+            WHERE "organizationId" = ${organizationId} AND "role" = 'ADMIN'
+          ) > 1
+        )
+    `;
+
+    if (updated === 0) {
+      return { success: false, error: LAST_ADMIN_ERROR };
+    }
+
+    await recordAudit({
+      action: "membership.role_changed",
+      targetType: "User",
+      targetId: userId,
+      organizationId,
+      before: { role: previous.role },
+      after: { role: newRole },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating member role:", error);
+    return { success: false, error: "Failed to update member role" };
+  }
+}
+
+export async function removeMemberFromOrganization(
+  organizationId: string,
+  userId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const previous = await db.organizationMembership.findFirst({
+      where: {
+        userId,
+        organizationId
+      }
+    });
+
+    if (!previous) {
+      return { success: false, error: "Member not found" };
+    }
+
+    const removed = await db.$executeRaw`
+      DELETE FROM "OrganizationMembership"
+      WHERE "id" = ${previous.id}
+        AND (
+          "role" <> 'ADMIN'
+          OR (
+            SELECT COUNT(*) FROM "OrganizationMembership"
+            WHERE "organizationId" = ${organizationId} AND "role" = 'ADMIN'
+          ) > 1
+        )
+    `;
+
+    if (removed === 0) {
+      return { success: false, error: LAST_ADMIN_ERROR };
+    }
+
+    await recordAudit({
+      action: "membership.removed",
+      targetType: "User",
+      targetId: userId,
+      organizationId,
+      before: { role: previous.role },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing member from organization:", error);
+    return { success: false, error: "Failed to remove member" };
+  }
+}
+
+// Invitation Management Functions (SUPERUSER level)
+
+export async function createInvitation(
+  organizationId: string,
+  email: string,
+  role: OrganizationRole,
+  createdBy: string
+) {
+  try {
+    // Check if user already exists and is a member
+    const existingUser = await db.user.findUnique({
+      where: { email },
+      include: {
+        organizations: {
+          where: { organizationId }
+        }
+      }
+    });
+
+    if (existingUser && existingUser.organizations.length > 0) {
+      return null; // User is already a member
+    }
+
+    // Check for existing pending invitation
+    await expireStaleInvitations({ email, organizationId });
+    const existingInvitation = await db.organizationInvitation.findFirst({
+      where: {
+        email,
+        organizationId,
+        status: "PENDING",
+        expiresAt: { gt: new Date() }
+      }
+    });
+
+    if (existingInvitation) {
+      return null; // Invitation already exists
+    }
+
+    // Create new invitation
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7); // Expires in 7 days
+
+    const invitation = await db.organizationInvitation.create({
+      data: {
+        email,
+        organizationId,
+        role,
+        token,
+        expiresAt,
+        createdBy,
+      },
+      include: {
+        organization: true
+      }
+    });
+
+    await recordAudit({
+      actorId: createdBy,
+      action: "invitation.created",
+      targetType: "OrganizationInvitation",
+      targetId: invitation.id,
+      organizationId,
+      after: { email, role, expiresAt },
+    });
+
+    try {
+      await sendInvitationEmail(invitation, existingUser?.locale);
+    } catch (error) {
+      console.error("Failed to send invitation email:", error);
+      // The invitation still exists; it can be shared or resent
+    }
+
+    return invitation;
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    return null;
+  }
+}
+
+async function sendInvitationEmail(
+  invitation: {
+    email: string;
+    role: string;
+    token: string;
+    expiresAt: Date;
+    createdBy: string;
+    organization: { name: string };
+  },
+  locale?: string | null
+) {
+  const inviter = await db.user.findUnique({
+    where: { id: invitation.createdBy },
+    select: { username: true }
+  });
+
+  const baseUrl = new URL(requestInfo.request.url).origin;
+
+  return sendTemplateEmail(
+    invitation.email,
+    "invitation",
+    {
+      organizationName: invitation.organization.name,
+      inviterName: inviter?.username ?? "ILCA KNS",
+      role: invitation.role,
+      inviteLink: `${baseUrl}/invite/${invitation.token}`,
+      expiresAt: invitation.expiresAt,
+    },
+    locale
+  );
+}
+
+// Mark PENDING invitations past their expiresAt as EXPIRED. Called before
+// invitations are read or listed, limited to the rows about to be looked at,
+// so queries on status "PENDING" never see a stale invitation.
+export async function expireStaleInvitations(
+  scope: { id?: string; token?: string; organizationId?: string; email?: string } = {}
+) {
+  await db.organizationInvitation.updateMany({
+    where: { ...scope, status: "PENDING", expiresAt: { lt: new Date() } },
+    data: { status: "EXPIRED" }
+  });
+}
+
+// A PENDING invitation past its expiresAt counts as EXPIRED even if the row
+// hasn't been updated yet
+export function getInvitationStatus(invitation: { status: string; expiresAt: Date }) {
+  return invitation.status === "PENDING" && invitation.expiresAt < new Date()
+    ? "EXPIRED"
+    : invitation.status;
+}
+
+// Invitations belong to the address they were sent to
+export function isInvitedAddress(email: string | null | undefined, invitedEmail: string) {
+  return !!email && email.toLowerCase() === invitedEmail.toLowerCase();
+}
+
+export async function getInvitationByToken(token: string) {
+  try {
+    await expireStaleInvitations({ token });
+
+    const invitation = await db.organizationInvitation.findUnique({
+      where: { token },
+      include: {
+        organization: true
+      }
+    });
+
+    // Check if invitation is valid
+    if (!invitation || getInvitationStatus(invitation) !== "PENDING") {
+      return null;
+    }
+
+    return invitation;
+  } catch (error) {
+    console.error("Error fetching invitation:", error);
+    return null;
+  }
+}
+
+export async function acceptInvitation(token: string, userId: string) {
+  try {
+    const invitation = await getInvitationByToken(token);
+    if (!invitation) {
+      return { success: false, error: "Invitation not found or expired" };
+    }
+
+    // Only the account with the invited address can accept, and only once
+    // that address is verified; holding the invitation link isn't proof of
+    // owning the inbox, so it must not stand in for verification.
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { email: true, emailVerifiedAt: true }
+    });
+
+    if (!user || !isInvitedAddress(user.email, invitation.email)) {
+      return { success: false, error: "This invitation was sent to a different email address" };
+    }
+
+    if (!user.emailVerifiedAt) {
+      return {
+        success: false,
+        error: "Verify your email address before accepting this invitation",
+        needsVerification: true
+      };
+    }
+
+    // Add user to organization
+    const membership = await addMemberToOrganization(
+      invitation.organizationId,
+      userId,
+      invitation.role
+    );
+
+    if (membership) {
+      // Mark invitation as accepted
+      await db.organizationInvitation.update({
+        where: { id: invitation.id },
+        data: {
+          status: "ACCEPTED",
+          acceptedAt: new Date()
+        }
+      });
+
+      await recordAudit({
+        actorId: userId,
+        action: "invitation.accepted",
+        targetType: "OrganizationInvitation",
+        targetId: invitation.id,
+        organizationId: invitation.organizationId,
+        after: { role: invitation.role },
+      });
+
+      return { success: true };
+    }
+
+    return { success: false, error: "Already a member of this organization" };
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    return { success: false, error: "Failed to accept invitation" };
+  }
+}
+
+// Signed-out visitors holding the link may decline; a signed-in user only
+// if the invitation was sent to their address
+export async function rejectInvitation(
+  token: string,
+  user?: { id: string; email: string | null } | null
+) {
+  try {
+    const invitation = await getInvitationByToken(token);
+    if (!invitation) {
+      return { success: false, error: "Invitation not found or expired" };
+    }
+
+    if (user && !isInvitedAddress(user.email, invitation.email)) {
+      return { success: false, error: "This invitation was sent to a different email address" };
+    }
+
+    await db.organizationInvitation.update({
+      where: { id: invitation.id },
+      data: {
+        status: "REJECTED"
+      }
+    });
+
+    await recordAudit({
+      action: "invitation.declined",
+      targetType: "OrganizationInvitation",
+      targetId: invitation.id,
+      organizationId: invitation.organizationId,
+      metadata: { email: invitation.email },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error rejecting invitation:", error);
+    return { success: false, error: "Failed to decline invitation" };
+  }
+}
+
+// User's Organizations Functions
+
+export async function getUserOrganizations(userId: string) {
+  try {
+    const memberships = await db.organizationMembership.findMany({
+      where: { userId },
+      include: {
+        organization: true
+      },
+      orderBy: {
+        joinedAt: 'desc'
+      }
+    });
+
+    return memberships.map(membership => ({
+      ...membership.organization,
+      role: membership.role,
+      joinedAt: membership.joinedAt
+    }));
+  } catch (error) {
+    console.error("Error fetching user organizations:", error);
+    return [];
+  }
+}
@@ -1,5 +1,9 @@
 import { route } from "rwsdk/router";
 import Dashboard from "./Dashboard";
+import OrganizationDetails from "./OrganizationDetails";
+import UserManagement from "./users/UserManagement";
+import AuditLogPage from "./AuditLogPage";
+import { endImpersonation } from "./users/impersonation";
 import { AppContext } from "@/worker";
 
 // Interrupter to require SUPERUSER role
@@ -21,4 +25,23 @@ const isSuperUser = ({ ctx }: { ctx: AppContext }) => {
 
 export const routes = [
   route("/dashboard", [isSuperUser, Dashboard]),
+  route("/organizations/:organizationId", [isSuperUser, OrganizationDetails]),
+  route("/users", [isSuperUser, UserManagement]),
+  route("/audit", [isSuperUser, AuditLogPage]),
+
+  // Posted from the impersonation banner. Not behind isSuperUser: while
+  // impersonating, ctx.user is the user being viewed.
+  route("/impersonation/stop", async ({ ctx, request }) => {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const headers = new Headers();
+    if (ctx.session?.impersonatorId) {
+      await endImpersonation(ctx.session, request, headers, "stopped");
+    }
+
+    headers.set("Location", "/superuser/users");
+    return new Response(null, { status: 303, headers });
+  }),
 ];
@@ -0,0 +1,112 @@
+"use client";
+
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { MoreHorizontal } from "lucide-react";
+import { Button } from "@/app/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/app/components/ui/dropdown-menu";
+import { link } from "@/app/shared/links";
+import {
+  setUserRole,
+  setUserDisabled,
+  sendPasswordResetForUser,
+  startImpersonation,
+} from "./functions";
+
+export function UserActions({
+  user,
+}: {
+  user: {
+    id: string;
+    username: string;
+    role: string;
+    hasEmail: boolean;
+    disabled: boolean;
+  };
+}) {
+  const [isPending, startTransition] = useTransition();
+
+  const run = (action: () => Promise<{ success: boolean; error?: string }>, successMessage: string, reload = true) => {
+    startTransition(async () => {
+      try {
+        const result = await action();
+        if (result.success) {
+          toast.success(successMessage);
+          if (reload) window.location.reload();
+        } else {
+          toast.error(result.error ?? "Something went wrong");
+        }
+      } catch (error) {
+        console.error(error);
+        toast.error("Something went wrong");
+      }
+    });
+  };
+
+  const isSuperuser = user.role === "SUPERUSER";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={isPending}>
+          <MoreHorizontal className="h-4 w-4" />
+          <span className="sr-only">Actions for {user.username}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          onSelect={() =>
+            run(
+              () => setUserRole(user.id, isSuperuser ? "USER" : "SUPERUSER"),
+              isSuperuser ? `${user.username} is no longer a SUPERUSER` : `${user.username} is now a SUPERUSER`
+            )
+          }
+        >
+          {isSuperuser ? "Remove SUPERUSER" : "Make SUPERUSER"}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={!user.hasEmail}
+          onSelect={() =>
+            run(() => sendPasswordResetForUser(user.id), `Password reset sent to ${user.username}`, false)
+          }
+        >
+          Send password reset
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={isSuperuser}
+          onSelect={() =>
+            startTransition(async () => {
+              const result = await startImpersonation(user.id);
+              if (result.success) {
+                window.location.href = link("/home");
+              } else {
+                toast.error(result.error ?? "Something went wrong");
+              }
+            })
+          }
+        >
+          View as user
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          variant="destructive"
+          onSelect={() => {
+            if (!user.disabled && !confirm(`Disable ${user.username}? They'll be signed out everywhere.`)) return;
+            run(
+              () => setUserDisabled(user.id, !user.disabled),
+              user.disabled ? `${user.username} can sign in again` : `${user.username} has been disabled`
+            );
+          }}
+        >
+          {user.disabled ? "Enable account" : "Disable account"}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,191 @@
+import { HomeLayout } from "@/app/layouts/HomeLayout";
+import { RequestInfo } from "rwsdk/worker";
+import { Card, CardContent } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Badge } from "@/app/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/app/components/ui/table";
+import { link } from "@/app/shared/links";
+import { db } from "@/db";
+import { UserActions } from "./UserActions";
+
+const PAGE_SIZE = 25;
+
+function pageHref(query: string, page: number) {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  if (page > 1) params.set("page", String(page));
+  const search = params.toString();
+  return link("/superuser/users") + (search ? `?${search}` : "");
+}
+
+export default async function UserManagement(props: RequestInfo) {
+  const url = new URL(props.request.url);
+  const query = url.searchParams.get("q")?.trim() ?? "";
+  const page = Math.max(1, Number.parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+
+  // Deleted accounts are anonymous tombstones; there's nothing to manage
+  const where = {
+    deletedAt: null,
+    ...(query && {
+      OR: [
+        { username: { contains: query } },
+        { email: { contains: query } },
+      ],
+    }),
+  };
+
+  const [total, users] = await Promise.all([
+    db.user.count({ where }),
+    db.user.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE,
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+        password: true,
+        totpEnabledAt: true,
+        disabledAt: true,
+        createdAt: true,
+        organizations: {
+          select: { role: true, organization: { select: { name: true } } }
+        },
+        _count: { select: { credentials: true } }
+      }
+    }),
+  ]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <HomeLayout {...props}>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between mb-6">
+          <div>
+            <a href={link("/superuser/dashboard")} className="text-sm text-gray-600 hover:underline">
+              &larr; Dashboard
+            </a>
+            <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+            <p className="text-gray-600 mt-1">
+              {total} {query ? `matching "${query}"` : "accounts"}
+            </p>
+          </div>
+          <form method="get" action={link("/superuser/users")} className="flex gap-2">
+            <Input
+              type="search"
+              name="q"
+              defaultValue={query}
+              placeholder="Search username or email"
+              aria-label="Search users"
+              className="w-64"
+            />
+            <Button type="submit" variant="outline">Search</Button>
+          </form>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {users.length === 0 ? (
+              <p className="p-8 text-center text-gray-600">No users found.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Clubs</TableHead>
+                    <TableHead>Sign-in methods</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => (
+                    <TableRow key={user.id} className={user.disabledAt ? "opacity-60" : undefined}>
+                      <TableCell className="font-medium">
+                        {user.username}
+                        {user.disabledAt && (
+                          <Badge variant="destructive" className="ml-2">Disabled</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{user.email ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={user.role === "SUPERUSER" ? "default" : "outline"}>
+                          {user.role}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {user.organizations.length === 0
+                          ? "—"
+                          : user.organizations
+                              .map((membership) => `${membership.organization.name} (${membership.role})`)
+                              .join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {user.password && <Badge variant="secondary">Password</Badge>}
+                          {user._count.credentials > 0 && (
+                            <Badge variant="secondary">
+                              {user._count.credentials} passkey{user._count.credentials === 1 ? "" : "s"}
+                            </Badge>
+                          )}
+                          {user.totpEnabledAt && <Badge variant="secondary">2FA</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{user.createdAt.toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        {user.id !== props.ctx.user?.id && (
+                          <UserActions
+                            user={{
+                              id: user.id,
+                              username: user.username,
+                              role: user.role,
+                              hasEmail: !!user.email,
+                              disabled: !!user.disabledAt,
+                            }}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {pageCount > 1 && (
+          <div className="mt-4 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Page {page} of {pageCount}
+            </p>
+            <div className="flex gap-2">
+              {page > 1 && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={pageHref(query, page - 1)}>Previous</a>
+                </Button>
+              )}
+              {page < pageCount && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={pageHref(query, page + 1)}>Next</a>
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </HomeLayout>
+  );
+}
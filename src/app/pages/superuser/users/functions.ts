@@ -0,0 +1,170 @@
+"use server";
+
+import { requestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { sessions } from "@/session/store";
+import { forgetUserSession, revokeAllUserSessions } from "@/session/registry";
+import { getImpersonationExpiresAt } from "@/session/impersonation";
+import { issuePasswordReset } from "@/app/pages/user/account";
+import { recordAudit } from "@/audit/log";
+import { requireSuperuser } from "@/app/auth/authorization";
+
+// The target of an action on another account; never yourself or a deleted user
+async function findManageableUser(actorId: string, userId: string) {
+  if (userId === actorId) {
+    return { error: "You can't do that to your own account" };
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || user.deletedAt) {
+    return { error: "User not found" };
+  }
+
+  return { user };
+}
+
+export async function setUserRole(userId: string, role: string) {
+  const actor = requireSuperuser();
+
+  if (role !== "USER" && role !== "SUPERUSER") {
+    return { success: false, error: "Invalid role" };
+  }
+
+  try {
+    const result = await findManageableUser(actor.id, userId);
+    if (!result.user) {
+      return { success: false, error: result.error };
+    }
+
+    if (result.user.role === role) {
+      return { success: true };
+    }
+
+    await db.user.update({
+      where: { id: userId },
+      data: { role },
+    });
+
+    await recordAudit({
+      actorId: actor.id,
+      action: "user.role_changed",
+      targetType: "User",
+      targetId: userId,
+      before: { role: result.user.role },
+      after: { role },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error changing user role:", error);
+    return { success: false, error: "Failed to change role" };
+  }
+}
+
+export async function setUserDisabled(userId: string, disabled: boolean) {
+  const actor = requireSuperuser();
+
+  try {
+    const result = await findManageableUser(actor.id, userId);
+    if (!result.user) {
+      return { success: false, error: result.error };
+    }
+
+    const updated = await db.user.update({
+      where: { id: userId },
+      data: { disabledAt: disabled ? new Date() : null },
+    });
+
+    // Signed-in devices would otherwise stay in until their sessions expire
+    if (disabled) {
+      await revokeAllUserSessions(userId);
+    }
+
+    await recordAudit({
+      actorId: actor.id,
+      action: disabled ? "user.disabled" : "user.enabled",
+      targetType: "User",
+      targetId: userId,
+      before: { disabledAt: result.user.disabledAt },
+      after: { disabledAt: updated.disabledAt },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error disabling user:", error);
+    return { success: false, error: "Failed to update account" };
+  }
+}
+
+export async function sendPasswordResetForUser(userId: string) {
+  const actor = requireSuperuser();
+
+  try {
+    const result = await findManageableUser(actor.id, userId);
+    if (!result.user) {
+      return { success: false, error: result.error };
+    }
+
+    if (!result.user.email) {
+      return { success: false, error: "This account has no email address" };
+    }
+
+    await issuePasswordReset(result.user, result.user.email);
+
+    await recordAudit({
+      actorId: actor.id,
+      action: "user.password_reset_sent",
+      targetType: "User",
+      targetId: userId,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error sending password reset:", error);
+    return { success: false, error: "Failed to send password reset" };
+  }
+}
+
+// "View as user": swap this browser's session for a read-only, time-boxed
+// session as the target. The worker middleware enforces both limits.
+export async function startImpersonation(userId: string) {
+  const actor = requireSuperuser();
+  const { ctx, request, headers } = requestInfo;
+
+  const result = await findManageableUser(actor.id, userId);
+  if (!result.user) {
+    return { success: false, error: result.error };
+  }
+
+  if (result.user.role === "SUPERUSER") {
+    return { success: false, error: "You can't view the site as another SUPERUSER" };
+  }
+
+  const expiresAt = getImpersonationExpiresAt(Date.now());
+
+  // The SUPERUSER's own session ends here; stopping hands them a new one
+  await sessions.remove(request, headers);
+  if (ctx.session?.id) {
+    await forgetUserSession(ctx.session.id);
+  }
+
+  await sessions.save(headers, {
+    userId,
+    challenge: null,
+    impersonatorId: actor.id,
+    impersonationExpiresAt: expiresAt,
+  });
+
+  await recordAudit({
+    actorId: actor.id,
+    action: "impersonation.started",
+    targetType: "User",
+    targetId: userId,
+    metadata: { expiresAt: new Date(expiresAt).toISOString() },
+  });
+
+  return { success: true };
+}
@@ -0,0 +1,66 @@
+import type { AppContext } from "@/worker";
+import { db } from "@/db";
+import { sessions } from "@/session/store";
+import type { Session } from "@/session/durableObject";
+import { isImpersonationExpired, isMutatingServerAction } from "@/session/impersonation";
+import { recordAudit } from "@/audit/log";
+
+// Server-only: "view as user" session handling, used by the worker
+// middleware and the stop route.
+
+// Hand the browser back to the SUPERUSER with a fresh session of their own
+export async function endImpersonation(
+  session: Session,
+  request: Request,
+  headers: Headers,
+  reason: "stopped" | "expired"
+) {
+  if (!session.impersonatorId) return;
+
+  await sessions.remove(request, headers);
+  await sessions.save(headers, {
+    userId: session.impersonatorId,
+    challenge: null,
+  });
+
+  await recordAudit({
+    actorId: session.impersonatorId,
+    action: `impersonation.${reason}`,
+    targetType: "User",
+    targetId: session.userId ?? undefined,
+    request,
+  });
+}
+
+// Called for every request made while impersonating. Sets ctx.impersonator,
+// or returns the response to send instead (expired, revoked, or a write).
+export async function enforceImpersonation(
+  ctx: AppContext,
+  request: Request,
+  headers: Headers
+): Promise<Response | undefined> {
+  const session = ctx.session!;
+
+  if (isImpersonationExpired(session, Date.now())) {
+    await endImpersonation(session, request, headers, "expired");
+    headers.set("Location", "/superuser/users");
+    return new Response(null, { status: 302, headers });
+  }
+
+  const impersonator = await db.user.findUnique({
+    where: { id: session.impersonatorId! },
+  });
+
+  // Lost SUPERUSER since starting: end it without handing back a session
+  if (!impersonator || impersonator.role !== "SUPERUSER" || impersonator.disabledAt) {
+    await sessions.remove(request, headers);
+    headers.set("Location", "/user/login");
+    return new Response(null, { status: 302, headers });
+  }
+
+  ctx.impersonator = impersonator;
+
+  if (isMutatingServerAction(request)) {
+    return new Response("Read-only while viewing as another user", { status: 403 });
+  }
+}
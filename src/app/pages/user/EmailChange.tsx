@@ -0,0 +1,89 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AuthLayout } from "@/app/layouts/AuthLayout";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { link } from "@/app/shared/links";
+import { confirmEmailChange, revertEmailChange } from "./functions";
+
+// Landing page for both links in an email change: "confirm" from the new
+// address, "revert" from the notification sent to the old one
+export default function EmailChange({ action }: { action: "confirm" | "revert" }) {
+  const [isValid, setIsValid] = useState<boolean | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Get token from URL
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("token");
+
+    if (!token) {
+      setIsValid(false);
+      setResult("No token provided.");
+      return;
+    }
+
+    const apply = action === "confirm" ? confirmEmailChange : revertEmailChange;
+    apply(token)
+      .then((response) => {
+        setIsValid(response.success);
+        setResult(
+          response.success
+            ? action === "confirm"
+              ? "Your email address has been changed."
+              : "Your previous email address has been restored and all devices have been signed out. We recommend resetting your password."
+            : response.error ?? null
+        );
+      })
+      .catch((error) => {
+        console.error(error);
+        setIsValid(false);
+        setResult("Something went wrong. Please try again.");
+      });
+  }, [action]);
+
+  return (
+    <AuthLayout>
+      <div className="flex min-h-[calc(100vh-96px)] items-center justify-center bg-bg">
+        <Card className="w-full max-w-md sm:p-4 shadow-lg bg-background/60">
+          <CardHeader>
+            <CardTitle>
+              {action === "confirm" ? "Confirm Email Change" : "Restore Your Email"}
+            </CardTitle>
+            <CardDescription>
+              {action === "confirm"
+                ? "Confirming your new email address"
+                : "Undoing a recent email change"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isValid === null ? (
+              <div className="text-center py-4">Please wait...</div>
+            ) : isValid ? (
+              <div className="text-center py-4">
+                <p className="mb-4 text-green-600">{result}</p>
+                {action === "confirm" ? (
+                  <Button onClick={() => window.location.href = link("/home")}>
+                    Continue
+                  </Button>
+                ) : (
+                  <Button onClick={() => window.location.href = link("/user/forgot-password")}>
+                    Reset Password
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="text-center py-4">
+                <p className="mb-4 text-destructive">{result}</p>
+                <p className="text-sm text-muted-foreground">
+                  You can start a new email change from your account settings.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AuthLayout>
+  );
+}
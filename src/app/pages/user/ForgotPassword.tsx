@@ -20,7 +20,12 @@ export default function ForgotPassword() {
     
     startTransition(async () => {
       try {
-        const success = await requestPasswordReset(email);
+        const response = await requestPasswordReset(email);
+        if (typeof response === "object") {
+          // Too many reset requests; keep the form so they can retry later
+          setResult(response.message);
+          return;
+        }
         setSubmitted(true);
         // Always show success message even if email doesn't exist (security)
         setResult("If an account with that email exists, we've sent password reset instructions.");
@@ -55,6 +60,7 @@ export default function ForgotPassword() {
                     required
                   />
                 </div>
+                {result && <div className="text-destructive text-sm">{result}</div>}
                 <Button type="submit" disabled={isPending} className="w-full">
                   {isPending ? "Sending..." : "Send Reset Link"}
                 </Button>
@@ -4,11 +4,14 @@ import { useState, useTransition, useEffect } from "react";
 import { AuthLayout } from "@/app/layouts/AuthLayout"
 import {
   startAuthentication,
+  browserSupportsWebAuthn,
+  browserSupportsWebAuthnAutofill,
 } from "@simplewebauthn/browser";
 import {
   finishPasskeyLogin,
   startPasskeyLogin,
   loginWithPassword,
+  verifyTwoFactorLogin,
 } from "./functions";
 import { cn } from "@/app/lib/utils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
@@ -16,38 +19,88 @@ import { Input } from "@/app/components/ui/input";
 import { Button } from "@/app/components/ui/button";
 import { Label } from "@/app/components/ui/label";
 import { link } from "@/app/shared/links";
+import { getNextFromLocation, withNext } from "@/app/lib/redirect";
 
-export function Login() {
+// signedIn: someone is already signed in, e.g. arriving from a ?next= link
+export function Login({ signedIn = false }: { signedIn?: boolean }) {
   // Email/password state
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
+  // Second step for accounts with two-factor authentication
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
   // Passkey state
   const [username, setUsername] = useState("");
   const [result, setResult] = useState("");
   const [isPending, startTransition] = useTransition();
   const [isClient, setIsClient] = useState(false);
+  const [supportsPasskeys, setSupportsPasskeys] = useState(true);
+
+  // Page to return to after signing in, e.g. an invitation
+  const [next, setNext] = useState<string | null>(null);
 
   // Set isClient to true after component mounts
   useEffect(() => {
     setIsClient(true);
+    setSupportsPasskeys(browserSupportsWebAuthn());
+    setNext(new URLSearchParams(window.location.search).get("next"));
   }, []);
 
+  // Conditional mediation: offer saved passkeys in the username field's
+  // autofill. Runs in the background until the user picks one; an explicit
+  // passkey login aborts it. Not while signed in, so just visiting the page
+  // can't touch the current session.
+  const startPasskeyAutofill = async () => {
+    if (signedIn || !(await browserSupportsWebAuthnAutofill())) return;
+
+    try {
+      const options = await startPasskeyLogin();
+      const login = await startAuthentication({
+        optionsJSON: options,
+        useBrowserAutofill: true,
+      });
+
+      if (await finishPasskeyLogin(login)) {
+        window.location.href = getNextFromLocation(link("/home"));
+      } else {
+        setResult("Login failed");
+      }
+    } catch (error) {
+      // Aborted by an explicit login, or the user dismissed the prompt
+      console.debug("Passkey autofill ended:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (isClient) void startPasskeyAutofill();
+  }, [isClient]);
+
   const passkeyLogin = async () => {
-    // 1. Get a challenge from the worker
-    const options = await startPasskeyLogin();
+    try {
+      // 1. Get a challenge from the worker, limited to this user's passkeys if a username was given
+      const options = await startPasskeyLogin(username);
 
-    // 2. Ask the browser to sign the challenge
-    const login = await startAuthentication({ optionsJSON: options });
+      // 2. Ask the browser to sign the challenge
+      const login = await startAuthentication({ optionsJSON: options });
 
-    // 3. Give the signed challenge to the worker to finish the login process
-    const success = await finishPasskeyLogin(login);
+      // 3. Give the signed challenge to the worker to finish the login process
+      const success = await finishPasskeyLogin(login);
 
-    if (!success) {
-      setResult("Login failed");
-    } else {
-      window.location.href = link("/home");
+      if (!success) {
+        setResult("Login failed");
+      } else {
+        window.location.href = getNextFromLocation(link("/home"));
+        return;
+      }
+    } catch (error) {
+      console.error("Passkey login failed:", error);
+      setResult("Passkey login was cancelled or failed. You can try again or use your email and password.");
     }
+
+    // The explicit ceremony cancelled autofill; offer it again
+    void startPasskeyAutofill();
   };
 
   const handlePerformPasskeyLogin = () => {
@@ -59,9 +112,15 @@ export function Login() {
     
     startTransition(async () => {
       try {
-        const success = await loginWithPassword(email, password);
-        if (success) {
-          window.location.href = link("/home");
+        const response = await loginWithPassword(email, password);
+        if (response === true) {
+          window.location.href = getNextFromLocation(link("/home"));
+        } else if (response && "twoFactorRequired" in response) {
+          setResult("");
+          setTwoFactorRequired(true);
+        } else if (response) {
+          // Locked out by rate limiting
+          setResult(response.message);
         } else {
           setResult("Invalid email or password");
         }
@@ -71,6 +130,23 @@ export function Login() {
     });
   };
 
+  const handleTwoFactorLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    startTransition(async () => {
+      try {
+        const response = await verifyTwoFactorLogin(twoFactorCode);
+        if (response.success) {
+          window.location.href = getNextFromLocation(link("/home"));
+        } else {
+          setResult(response.error ?? "Invalid code");
+        }
+      } catch (error) {
+        setResult("Login failed");
+      }
+    });
+  };
+
   // Show a skeleton loader while on the server or during initial client render
   if (!isClient) {
     return (
@@ -90,6 +166,48 @@ export function Login() {
     );
   }
 
+  if (twoFactorRequired) {
+    return (
+      <AuthLayout>
+        <div className="flex min-h-[calc(100vh-96px)] items-center justify-center bg-bg">
+          <Card className="w-full max-w-md sm:p-4 shadow-lg bg-background/60">
+            <CardHeader>
+              <CardTitle>Two-factor authentication</CardTitle>
+              <CardDescription>
+                Enter the 6-digit code from your authenticator app, or one of
+                your recovery codes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form className="flex flex-col gap-4" onSubmit={handleTwoFactorLogin}>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="twoFactorCode">Code</Label>
+                  <Input
+                    id="twoFactorCode"
+                    type="text"
+                    value={twoFactorCode}
+                    onChange={e => setTwoFactorCode(e.target.value)}
+                    placeholder="123456"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isPending}>
+                  {isPending ? <>...</> : "Verify"}
+                </Button>
+                {result && <div className="text-center text-sm text-muted-foreground">{result}</div>}
+                <div className="text-center text-sm text-muted-foreground">
+                  <a href={withNext(link('/user/login'), next)} className="underline underline-offset-4">Start over</a>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </AuthLayout>
+    );
+  }
+
   return (
     <AuthLayout>
     <div className="flex min-h-[calc(100vh-96px)] items-center justify-center bg-bg">
@@ -98,13 +216,14 @@ export function Login() {
           <CardTitle>Login to your account</CardTitle>
           <CardDescription>
             Choose your preferred login method below or{" "}
-            <a href={link('/user/signup')} className="font-display font-bold text-black text-sm underline underline-offset-8 hover:decoration-primary">
+            <a href={withNext(link('/user/signup'), next)} className="font-display font-bold text-black text-sm underline underline-offset-8 hover:decoration-primary">
               Register
             </a>
           </CardDescription>
         </CardHeader>
         <CardContent>
           {/* Passkey Login/Register */}
+          {supportsPasskeys ? (
           <form className="flex flex-col gap-4" onSubmit={e => { e.preventDefault(); handlePerformPasskeyLogin(); }}>
             <div className="flex flex-col gap-2">
               <Label htmlFor="username">Username</Label>
@@ -113,9 +232,8 @@ export function Login() {
                 type="text"
                 value={username}
                 onChange={e => setUsername(e.target.value)}
-                placeholder="Username"
-                autoComplete="username"
-                required
+                placeholder="Username (optional)"
+                autoComplete="username webauthn"
               />
             </div>
             <Button type="submit" disabled={isPending} className="w-full">
@@ -124,6 +242,12 @@ export function Login() {
             
             {result && <div className="mt-4 text-center text-sm text-muted-foreground">{result}</div>}
           </form>
+          ) : (
+            <div className="text-center text-sm text-muted-foreground">
+              This browser doesn't support passkeys. Log in with your email and password below.
+              {result && <div className="mt-4">{result}</div>}
+            </div>
+          )}
 
           {/* Divider */}
           <div className="flex items-center my-6">
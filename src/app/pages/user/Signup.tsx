@@ -6,6 +6,7 @@ import {
   finishPasskeyRegistration,
   startPasskeyRegistration,
   registerWithPassword,
+  checkUsernameAvailability,
 } from "./functions";
 import { AuthLayout } from "@/app/layouts/AuthLayout";
 import { Button } from "@/app/components/ui/button";
@@ -13,6 +14,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
 import { link } from "@/app/shared/links";
+import { withNext } from "@/app/lib/redirect";
 
 export function Signup() {
   const [username, setUsername] = useState("");
@@ -24,24 +26,69 @@ export function Signup() {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
 
+  // Live availability check, shown under the username field
+  const [usernameStatus, setUsernameStatus] = useState<
+    Awaited<ReturnType<typeof checkUsernameAvailability>> | null
+  >(null);
+
+  // Set when arriving from an invitation: return there after signing in
+  const [next, setNext] = useState<string | null>(null);
+
   useEffect(() => {
     setIsClient(true);
+
+    const params = new URLSearchParams(window.location.search);
+    setNext(params.get("next"));
+
+    const invitedEmail = params.get("email");
+    if (invitedEmail) {
+      setEmail(invitedEmail);
+      setShowPasswordOption(true);
+    }
   }, []);
 
+  useEffect(() => {
+    setUsernameStatus(null);
+    if (!username.trim()) return;
+
+    // Wait for the user to stop typing before asking the server
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      checkUsernameAvailability(username)
+        .then((status) => {
+          if (!cancelled) setUsernameStatus(status);
+        })
+        .catch((error) => console.error("Username check failed:", error));
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [username]);
+
   const passkeyRegister = async () => {
+    // Check the username before asking for a biometric
+    const status = await checkUsernameAvailability(username);
+    if (!status.available) {
+      setUsernameStatus(status);
+      setResult(status.message);
+      return;
+    }
+
     // 1. Get a challenge from the worker
-    const options = await startPasskeyRegistration(username);
+    const options = await startPasskeyRegistration(status.username);
 
     // 2. Ask the browser to sign the challenge
     const registration = await startRegistration({ optionsJSON: options });
 
     // 3. Give the signed challenge to the worker to finish the registration process
-    const success = await finishPasskeyRegistration(username, registration);
+    const response = await finishPasskeyRegistration(status.username, registration);
 
-    if (!success) {
-      setResult("Registration failed");
+    if (!response.success) {
+      setResult(response.message);
     } else {
-      window.location.href = link("/user/login");
+      window.location.href = withNext(link("/user/login"), next);
     }
   };
 
@@ -58,11 +105,11 @@ export function Signup() {
     
     startTransition(async () => {
       try {
-        const success = await registerWithPassword(username, email, password);
-        if (success) {
-          window.location.href = link("/user/login");
+        const response = await registerWithPassword(username, email, password);
+        if (response.success) {
+          window.location.href = withNext(link("/user/login"), next);
         } else {
-          setResult("Registration failed");
+          setResult(response.message);
         }
       } catch (error) {
         setResult("Registration failed");
@@ -96,7 +143,7 @@ export function Signup() {
             <CardTitle>Register a new account</CardTitle>
             <CardDescription>
               Create your account with a username and passkey or{" "}
-              <a href={link("/user/login")} className="font-display font-bold text-black text-sm underline underline-offset-8 hover:decoration-primary">
+              <a href={withNext(link("/user/login"), next)} className="font-display font-bold text-black text-sm underline underline-offset-8 hover:decoration-primary">
                 Login
               </a>
             </CardDescription>
@@ -112,8 +159,19 @@ export function Signup() {
                   onChange={e => setUsername(e.target.value)}
                   placeholder="Username"
                   autoComplete="username"
+                  aria-describedby="username-status"
                   required
                 />
+                {usernameStatus && (
+                  <p
+                    id="username-status"
+                    className={`text-sm ${usernameStatus.available ? "text-green-600" : "text-destructive"}`}
+                  >
+                    {usernameStatus.available
+                      ? `${usernameStatus.username} is available`
+                      : usernameStatus.message}
+                  </p>
+                )}
               </div>
               <Button type="submit" disabled={isPending} className="w-full">
                 {isPending ? <>...</> : "Register with passkey"}
@@ -139,6 +197,9 @@ export function Signup() {
                     placeholder="Username"
                     required
                   />
+                  {usernameStatus && !usernameStatus.available && (
+                    <p className="text-sm text-destructive">{usernameStatus.message}</p>
+                  )}
                 </div>
                 <div className="flex flex-col gap-2">
                   <Label htmlFor="email">Email</Label>
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AuthLayout } from "@/app/layouts/AuthLayout";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { link } from "@/app/shared/links";
+import { verifyEmail } from "./functions";
+
+export default function VerifyEmail() {
+  const [isValid, setIsValid] = useState<boolean | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Get token from URL
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("token");
+
+    if (!token) {
+      setIsValid(false);
+      setResult("No verification token provided.");
+      return;
+    }
+
+    verifyEmail(token)
+      .then((success) => {
+        setIsValid(success);
+        setResult(
+          success
+            ? "Your email address has been verified."
+            : "This verification link is invalid or has expired."
+        );
+      })
+      .catch((error) => {
+        console.error(error);
+        setIsValid(false);
+        setResult("Something went wrong. Please try again.");
+      });
+  }, []);
+
+  return (
+    <AuthLayout>
+      <div className="flex min-h-[calc(100vh-96px)] items-center justify-center bg-bg">
+        <Card className="w-full max-w-md sm:p-4 shadow-lg bg-background/60">
+          <CardHeader>
+            <CardTitle>Verify Your Email</CardTitle>
+            <CardDescription>Confirming your email address</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isValid === null ? (
+              <div className="text-center py-4">Verifying email...</div>
+            ) : isValid ? (
+              <div className="text-center py-4">
+                <p className="mb-4 text-green-600">{result}</p>
+                <Button onClick={() => window.location.href = link("/home")}>
+                  Continue
+                </Button>
+              </div>
+            ) : (
+              <div className="text-center py-4">
+                <p className="mb-4 text-destructive">{result}</p>
+                <p className="text-sm text-muted-foreground">
+                  You can request a new link from your account settings.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -4,6 +4,11 @@ import userEvent from '@testing-library/user-event'
 import { Login } from '../Login'
 import { loginWithPassword, startPasskeyLogin, finishPasskeyLogin } from '../functions'
 import { link } from '@/app/shared/links'
+import {
+  startAuthentication,
+  browserSupportsWebAuthn,
+  browserSupportsWebAuthnAutofill,
+} from '@simplewebauthn/browser'
 
 // Mock the functions
 vi.mock('../functions', () => ({
@@ -15,6 +20,8 @@ vi.mock('../functions', () => ({
 // Mock @simplewebauthn/browser
 vi.mock('@simplewebauthn/browser', () => ({
   startAuthentication: vi.fn(),
+  browserSupportsWebAuthn: vi.fn(() => true),
+  browserSupportsWebAuthnAutofill: vi.fn(async () => false),
 }))
 
 // Mock shared links
@@ -22,6 +29,18 @@ vi.mock('@/app/shared/links', () => ({
   link: vi.fn((path: string) => path),
 }))
 
+const passkeyOptions: Awaited<ReturnType<typeof startPasskeyLogin>> = {
+  challenge: 'challenge',
+}
+
+const passkeyResponse: Awaited<ReturnType<typeof startAuthentication>> = {
+  id: 'credential-1',
+  rawId: 'credential-1',
+  type: 'public-key',
+  clientExtensionResults: {},
+  response: { clientDataJSON: '', authenticatorData: '', signature: '' },
+}
+
 // Mock window.location
 const mockLocation = {
   href: '',
@@ -191,6 +210,75 @@ describe('Login Component', () => {
     })
   })
 
+  describe('Passkey Login', () => {
+    it('should limit the passkey prompt to the entered username', async () => {
+      vi.mocked(startPasskeyLogin).mockResolvedValue(passkeyOptions)
+      vi.mocked(startAuthentication).mockResolvedValue(passkeyResponse)
+      vi.mocked(finishPasskeyLogin).mockResolvedValue(true)
+
+      render(<Login />)
+
+      await user.type(screen.getByLabelText(/username/i), 'sailor')
+      await user.click(screen.getByRole('button', { name: /login with passkey/i }))
+
+      await waitFor(() => {
+        expect(mockLocation.href).toBe('/home')
+      })
+      expect(startPasskeyLogin).toHaveBeenCalledWith('sailor')
+    })
+
+    it('should show a fallback message when the passkey prompt is cancelled', async () => {
+      vi.mocked(startPasskeyLogin).mockResolvedValue(passkeyOptions)
+      vi.mocked(startAuthentication).mockRejectedValue(new Error('NotAllowedError'))
+
+      render(<Login />)
+
+      await user.click(screen.getByRole('button', { name: /login with passkey/i }))
+
+      await waitFor(() => {
+        expect(screen.getByText(/use your email and password/i)).toBeInTheDocument()
+      })
+      expect(finishPasskeyLogin).not.toHaveBeenCalled()
+    })
+
+    it('should offer passkeys through autofill when the browser supports it', async () => {
+      vi.mocked(browserSupportsWebAuthnAutofill).mockResolvedValueOnce(true)
+      vi.mocked(startPasskeyLogin).mockResolvedValue(passkeyOptions)
+      vi.mocked(startAuthentication).mockReturnValue(new Promise(() => {}))
+
+      render(<Login />)
+
+      await waitFor(() => {
+        expect(startAuthentication).toHaveBeenCalledWith(
+          expect.objectContaining({ useBrowserAutofill: true })
+        )
+      })
+      expect(screen.getByLabelText(/username/i)).toHaveAttribute('autocomplete', 'username webauthn')
+    })
+
+    it('should not start passkey autofill for someone already signed in', async () => {
+      vi.mocked(browserSupportsWebAuthnAutofill).mockResolvedValue(true)
+
+      render(<Login signedIn />)
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /login with passkey/i })).toBeInTheDocument()
+      })
+      expect(startPasskeyLogin).not.toHaveBeenCalled()
+      vi.mocked(browserSupportsWebAuthnAutofill).mockResolvedValue(false)
+    })
+
+    it('should fall back to password login when passkeys are unsupported', () => {
+      vi.mocked(browserSupportsWebAuthn).mockReturnValueOnce(false)
+
+      render(<Login />)
+
+      expect(screen.queryByRole('button', { name: /login with passkey/i })).not.toBeInTheDocument()
+      expect(screen.getByText(/doesn't support passkeys/i)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /login with email/i })).toBeInTheDocument()
+    })
+  })
+
   describe('Security Scenarios', () => {
     it('should handle session hijacking simulation', async () => {
       const mockLoginWithPassword = vi.mocked(loginWithPassword)
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { db } from '@/db'
+import { revokeAllUserSessions } from '@/session/registry'
+import { deleteUserAccount } from '../account'
+
+vi.mock('@/db', () => {
+  const deleteMany = () => ({ deleteMany: vi.fn(() => 'deleteMany') })
+  return {
+    db: {
+      $transaction: vi.fn(),
+      user: { findUnique: vi.fn(), update: vi.fn(() => 'update') },
+      organizationMembership: { findMany: vi.fn(), deleteMany: vi.fn(() => 'deleteMany') },
+      post: deleteMany(),
+      credential: deleteMany(),
+      kudos: deleteMany(),
+      profile: deleteMany(),
+      passwordReset: deleteMany(),
+      emailVerification: deleteMany(),
+      emailChange: deleteMany(),
+      recoveryCode: deleteMany(),
+      organizationInvitation: deleteMany(),
+    },
+  }
+})
+
+vi.mock('@/session/registry', () => ({ revokeAllUserSessions: vi.fn() }))
+
+vi.mock('@/app/auth/email', () => ({ sendTemplateEmail: vi.fn() }))
+
+function adminOf(name: string, adminIds: string[]) {
+  return { organization: { name, members: adminIds.map((userId) => ({ userId })) } }
+}
+
+describe('deleteUserAccount', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.user.findUnique).mockResolvedValue({ id: 'user-1', email: 'erik@example.com' } as never)
+    vi.mocked(db.organizationMembership.findMany).mockResolvedValue([] as never)
+  })
+
+  it('should delete everything in one transaction, then sign out everywhere', async () => {
+    const result = await deleteUserAccount('user-1')
+
+    expect(result).toEqual({ success: true })
+    expect(db.$transaction).toHaveBeenCalledTimes(1)
+    const steps = vi.mocked(db.$transaction).mock.calls[0][0] as unknown as unknown[]
+    expect(steps).toHaveLength(11)
+    expect(db.user.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ username: 'deleted-user-1', email: null, deletedAt: expect.any(Date) }),
+    }))
+    expect(revokeAllUserSessions).toHaveBeenCalledWith('user-1')
+    expect(vi.mocked(db.$transaction).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(revokeAllUserSessions).mock.invocationCallOrder[0])
+  })
+
+  it('should keep the sessions when the deletion fails', async () => {
+    vi.mocked(db.$transaction).mockRejectedValue(new Error('D1 batch failed'))
+
+    await expect(deleteUserAccount('user-1')).rejects.toThrow('D1 batch failed')
+    expect(revokeAllUserSessions).not.toHaveBeenCalled()
+  })
+
+  it("should refuse while the user is an organization's only admin", async () => {
+    vi.mocked(db.organizationMembership.findMany).mockResolvedValue([
+      adminOf('Oslo Sailing', ['user-1']),
+      adminOf('Bergen Sailing', ['user-1', 'user-2']),
+    ] as never)
+
+    const result = await deleteUserAccount('user-1')
+
+    expect(result).toEqual({
+      success: false,
+      error: "You're the only admin of Oslo Sailing. Make someone else an admin first.",
+    })
+    expect(db.$transaction).not.toHaveBeenCalled()
+    expect(revokeAllUserSessions).not.toHaveBeenCalled()
+  })
+})
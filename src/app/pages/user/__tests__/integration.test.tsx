@@ -27,6 +27,8 @@ vi.mock('../profile/functions', () => ({
 // Mock @simplewebauthn/browser
 vi.mock('@simplewebauthn/browser', () => ({
   startAuthentication: vi.fn(),
+  browserSupportsWebAuthn: vi.fn(() => true),
+  browserSupportsWebAuthnAutofill: vi.fn(async () => false),
 }))
 
 // Mock shared links
@@ -136,11 +138,11 @@ describe('Integration Tests: Critical User Journeys', () => {
       mockLocation.href = ''
       
       // Render ProfileView component (simulating navigation to profile)
-      render(<ProfileView profileUserId="user-123" isOwnProfile={true} currentUserId="user-123" />)
+      render(<ProfileView profileUserId="user-123" isOwnProfile={true} />)
       
       // Verify profile data loads and sailing fields are displayed
       await waitFor(() => {
-        expect(mockGetPublicProfile).toHaveBeenCalledWith('user-123', 'user-123')
+        expect(mockGetPublicProfile).toHaveBeenCalledWith('user-123')
       })
       
       // Wait for profile data to load and verify sailing-specific fields
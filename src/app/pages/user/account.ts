@@ -0,0 +1,236 @@
+import { requestInfo } from "rwsdk/worker";
+import { randomBytes } from "crypto";
+import { db } from "@/db";
+import { revokeAllUserSessions } from "@/session/registry";
+import { sendTemplateEmail } from "@/app/auth/email";
+
+// Server-only account lifecycle helpers. These take a user ID, so they must
+// not live in a "use server" module where the client could call them.
+
+// Email a one-hour password reset link, replacing any earlier one. Used for
+// "Forgot password" and when a SUPERUSER triggers a reset.
+export async function issuePasswordReset(
+  user: { id: string; username: string; locale: string | null },
+  email: string
+) {
+  const token = randomBytes(32).toString('hex');
+  const expires = new Date(Date.now() + 3600000); // 1 hour from now
+
+  // First check if a reset token already exists
+  const existingReset = await db.passwordReset.findFirst({
+    where: { userId: user.id }
+  });
+
+  if (existingReset) {
+    // Update existing token
+    await db.passwordReset.update({
+      where: { id: existingReset.id },
+      data: { token, expires }
+    });
+  } else {
+    // Create new token
+    await db.passwordReset.create({
+      data: {
+        userId: user.id,
+        token,
+        expires
+      }
+    });
+  }
+
+  // Generate reset link
+  const baseUrl = new URL(requestInfo.request.url).origin;
+  const resetLink = `${baseUrl}/user/reset-password?token=${token}`;
+
+  await sendTemplateEmail(email, "passwordReset", { username: user.username, resetLink }, user.locale);
+}
+
+function parseJson(value: string | null) {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Everything we hold about a user, minus secrets (password hash, TOTP
+// secret, passkey public keys, tokens)
+export async function exportUserData(userId: string) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    include: {
+      profile: true,
+      posts: { orderBy: { createdAt: "asc" } },
+      comments: {
+        orderBy: { createdAt: "asc" },
+        include: { post: { select: { id: true, title: true } } },
+      },
+      kudos: {
+        orderBy: { createdAt: "asc" },
+        include: { post: { select: { id: true, title: true } } },
+      },
+      organizations: {
+        include: { organization: { select: { id: true, name: true } } },
+      },
+      credentials: true,
+      sessions: true,
+    },
+  });
+
+  if (!user) return null;
+
+  const { profile } = user;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    account: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      emailVerifiedAt: user.emailVerifiedAt,
+      club: user.club,
+      role: user.role,
+      twoFactorEnabled: !!user.totpEnabledAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    profile: profile && {
+      name: profile.name,
+      bio: profile.bio,
+      location: profile.location,
+      experienceLevel: profile.experienceLevel,
+      profilePicture: profile.profilePicture,
+      sailingExperience: profile.sailingExperience,
+      certifications: parseJson(profile.certifications),
+      boatInformation: parseJson(profile.boatInformation),
+      clubAffiliation: profile.clubAffiliation,
+      privacySettings: parseJson(profile.privacySettings),
+      createdAt: profile.createdAt,
+      updatedAt: profile.updatedAt,
+    },
+    posts: user.posts.map((post) => ({
+      id: post.id,
+      title: post.title,
+      content: post.content,
+      category: post.category,
+      status: post.status,
+      publishedAt: post.publishedAt,
+      createdAt: post.createdAt,
+      updatedAt: post.updatedAt,
+    })),
+    comments: user.comments.map((comment) => ({
+      id: comment.id,
+      post: comment.post,
+      content: comment.content,
+      createdAt: comment.createdAt,
+    })),
+    kudos: user.kudos.map((kudos) => ({
+      post: kudos.post,
+      createdAt: kudos.createdAt,
+    })),
+    memberships: user.organizations.map((membership) => ({
+      organization: membership.organization,
+      role: membership.role,
+      joinedAt: membership.joinedAt,
+    })),
+    passkeys: user.credentials.map((credential) => ({
+      deviceName: credential.deviceName,
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    })),
+    sessions: user.sessions.map((session) => ({
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+    })),
+  };
+}
+
+// Organizations the user is the only admin of. Leaving would break the
+// "at least one admin" rule the organization console enforces.
+async function findSoleAdminOrganizations(userId: string) {
+  const memberships = await db.organizationMembership.findMany({
+    where: { userId, role: "ADMIN" },
+    select: {
+      organization: {
+        select: {
+          name: true,
+          members: { where: { role: "ADMIN" }, select: { userId: true } },
+        },
+      },
+    },
+  });
+
+  return memberships
+    .filter(({ organization }) => organization.members.length === 1)
+    .map(({ organization }) => organization.name);
+}
+
+// Delete an account. Published posts and comments stay up under an anonymous
+// author so threads don't lose context; everything else personal is removed.
+// The User row is kept as that author, stripped of anything identifying.
+export async function deleteUserAccount(
+  userId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true },
+  });
+
+  if (!user) return { success: false, error: "User not found" };
+
+  const soleAdminOf = await findSoleAdminOrganizations(userId);
+  if (soleAdminOf.length > 0) {
+    return {
+      success: false,
+      error: `You're the only admin of ${soleAdminOf.join(", ")}. Make someone else an admin first.`,
+    };
+  }
+
+  // One batch, so a failure leaves the account as it was rather than half
+  // deleted
+  await db.$transaction([
+    // Unpublished drafts were never shared; comments on them go with them
+    db.post.deleteMany({ where: { userId, status: "DRAFT" } }),
+    db.credential.deleteMany({ where: { userId } }),
+    db.kudos.deleteMany({ where: { userId } }),
+    db.profile.deleteMany({ where: { userId } }),
+    db.organizationMembership.deleteMany({ where: { userId } }),
+    db.passwordReset.deleteMany({ where: { userId } }),
+    db.emailVerification.deleteMany({ where: { userId } }),
+    db.emailChange.deleteMany({ where: { userId } }),
+    db.recoveryCode.deleteMany({ where: { userId } }),
+    ...(user.email
+      ? [
+          db.organizationInvitation.deleteMany({
+            where: { email: user.email, status: "PENDING" },
+          }),
+        ]
+      : []),
+    db.user.update({
+      where: { id: userId },
+      data: {
+        // Longer than any valid username, so it can never be claimed at signup
+        username: `deleted-${userId}`,
+        email: null,
+        emailVerifiedAt: null,
+        password: null,
+        club: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        role: "USER",
+        deletedAt: new Date(),
+      },
+    }),
+  ]);
+
+  // Sign out everywhere once the deletion has gone through. The session
+  // registry rows stay out of the batch: revoking looks the sessions up there.
+  await revokeAllUserSessions(userId);
+
+  return { success: true };
+}
@@ -8,14 +8,41 @@ import {
   AuthenticationResponseJSON,
 } from "@simplewebauthn/server";
 
-import { sessions } from "@/session/store";
+import { sessions, saveChallenge } from "@/session/store";
+import { revokeUserSession, revokeAllUserSessions } from "@/session/registry";
 import { requestInfo } from "rwsdk/worker";
 import { db } from "@/db";
 import { env } from "cloudflare:workers";
-import { hashPassword, verifyPassword } from "@/app/auth/password";
+import { hashPassword, verifyPassword, needsRehash } from "@/app/auth/password";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "@/app/auth/totp";
+import {
+  normalizeUsername,
+  validateUsername,
+  USERNAME_ERROR_MESSAGES,
+  type UsernameErrorCode,
+} from "@/app/auth/username";
 import { randomBytes } from "crypto";
-import { sendEmail, generatePasswordResetEmail } from "@/app/auth/email";
-import { autoCreateUserProfile } from "./profile/functions";
+import {
+  sendTemplateEmail,
+} from "@/app/auth/email";
+import { autoCreateUserProfile } from "./profile/profiles";
+import { describeUserAgent, getClientIp } from "@/app/lib/device";
+import { deleteUserAccount, issuePasswordReset } from "./account";
+import { recordAudit } from "@/audit/log";
+import { requireSelf } from "@/app/auth/authorization";
+import { resolveLocale, SUPPORTED_LOCALES, type Locale } from "@/email/templates";
+import {
+  checkRateLimits,
+  hitRateLimits,
+  resetRateLimits,
+  type RateLimitKey,
+} from "@/rateLimit/limiter";
 
 const IS_DEV = process.env.NODE_ENV === "development";
 
@@ -28,14 +55,31 @@ function getWebAuthnConfig(request: Request) {
   };
 }
 
+// Default passkey name, e.g. "Chrome on Desktop (2025-01-15)"; users can rename it later
+function getDefaultDeviceName(request: Request) {
+  const dateStr = new Date().toISOString().split('T')[0];
+  return `${describeUserAgent(request.headers.get('user-agent'))} (${dateStr})`;
+}
+
 export async function startPasskeyRegistration(username: string) {
   const { rpName, rpID } = getWebAuthnConfig(requestInfo.request);
-  const { headers } = requestInfo;
+  const { headers, ctx } = requestInfo;
+
+  // Stop a signed-in user from registering the same authenticator twice
+  const existingCredentials = ctx.user
+    ? await db.credential.findMany({
+        where: { userId: ctx.user.id },
+        select: { credentialId: true },
+      })
+    : [];
 
   const options = await generateRegistrationOptions({
     rpName,
     rpID,
     userName: username,
+    excludeCredentials: existingCredentials.map(({ credentialId }) => ({
+      id: credentialId,
+    })),
     authenticatorSelection: {
       // Require the authenticator to store the credential, enabling a username-less login experience
       residentKey: "required",
@@ -44,22 +88,36 @@ export async function startPasskeyRegistration(username: string) {
     },
   });
 
-  await sessions.save(headers, { challenge: options.challenge });
+  await saveChallenge(env, ctx.session, headers, options.challenge);
 
   return options;
 }
 
-export async function startPasskeyLogin() {
+// Without a username the browser offers any discoverable passkey for this
+// site (including via autofill). With one, only that user's passkeys are
+// allowed. That list shows whether an account exists, but usernames are
+// public anyway (profile URLs, the feed).
+export async function startPasskeyLogin(username?: string) {
   const { rpID } = getWebAuthnConfig(requestInfo.request);
-  const { headers } = requestInfo;
+  const { headers, ctx } = requestInfo;
+  const normalized = username ? normalizeUsername(username) : "";
+
+  const userCredentials = normalized
+    ? await db.credential.findMany({
+        where: { user: { username: normalized } },
+        select: { credentialId: true },
+      })
+    : [];
 
   const options = await generateAuthenticationOptions({
     rpID,
     userVerification: "preferred",
-    allowCredentials: [],
+    allowCredentials: userCredentials.map(({ credentialId }) => ({
+      id: credentialId,
+    })),
   });
 
-  await sessions.save(headers, { challenge: options.challenge });
+  await saveChallenge(env, ctx.session, headers, options.challenge);
 
   return options;
 }
@@ -71,11 +129,16 @@ export async function finishPasskeyRegistration(
   const { request, headers } = requestInfo;
   const { origin } = new URL(request.url);
 
+  const checked = await checkNewUsername(username);
+  if ("error" in checked) {
+    return checked;
+  }
+
   const session = await sessions.load(request);
   const challenge = session?.challenge;
 
   if (!challenge) {
-    return false;
+    return signupFailure("REGISTRATION_FAILED");
   }
 
   const verification = await verifyRegistrationResponse({
@@ -86,16 +149,25 @@ export async function finishPasskeyRegistration(
   });
 
   if (!verification.verified || !verification.registrationInfo) {
-    return false;
+    return signupFailure("REGISTRATION_FAILED");
   }
 
-  await sessions.save(headers, { challenge: null });
+  await saveChallenge(env, requestInfo.ctx.session, headers, null);
 
-  const user = await db.user.create({
-    data: {
-      username,
-    },
-  });
+  let user;
+  try {
+    user = await db.user.create({
+      data: {
+        username: checked.username,
+      },
+    });
+  } catch (error) {
+    // Someone else took the username since it was checked
+    if (isUniqueConstraintError(error)) {
+      return signupFailure("USERNAME_TAKEN");
+    }
+    throw error;
+  }
 
   await db.credential.create({
     data: {
@@ -103,24 +175,7 @@ export async function finishPasskeyRegistration(
       credentialId: verification.registrationInfo.credential.id,
       publicKey: verification.registrationInfo.credential.publicKey,
       counter: verification.registrationInfo.credential.counter,
-      deviceName: (() => {
-        const userAgent = request.headers.get('user-agent') || 'Unknown Device';
-        const now = new Date();
-        const dateStr = now.toISOString().split('T')[0];
-
-        // Extract device info from user agent
-        const isMobile = /Mobile|Android|iPhone|iPad/i.test(userAgent);
-        const deviceType = isMobile ? 'Mobile' : 'Desktop';
-
-        // Try to extract browser name
-        let browserName = 'Browser';
-        if (/Chrome/i.test(userAgent) && !/Chromium|Edge/i.test(userAgent)) browserName = 'Chrome';
-        else if (/Firefox/i.test(userAgent)) browserName = 'Firefox';
-        else if (/Safari/i.test(userAgent) && !/Chrome|Chromium|Edge/i.test(userAgent)) browserName = 'Safari';
-        else if (/Edge|Edg/i.test(userAgent)) browserName = 'Edge';
-
-        return `${browserName} on ${deviceType} (${dateStr})`;
-      })(),
+      deviceName: getDefaultDeviceName(request),
     },
   });
 
@@ -133,7 +188,7 @@ export async function finishPasskeyRegistration(
     // Don't fail registration if profile creation fails
   }
 
-  return true;
+  return { success: true as const };
 }
 
 export async function finishPasskeyLogin(login: AuthenticationResponseJSON) {
@@ -180,6 +235,7 @@ export async function finishPasskeyLogin(login: AuthenticationResponseJSON) {
     },
     data: {
       counter: verification.authenticationInfo.newCounter,
+      lastUsedAt: new Date(),
     },
   });
 
@@ -189,7 +245,7 @@ export async function finishPasskeyLogin(login: AuthenticationResponseJSON) {
     },
   });
 
-  if (!user) {
+  if (!user || user.disabledAt) {
     return false;
   }
 
@@ -201,19 +257,105 @@ export async function finishPasskeyLogin(login: AuthenticationResponseJSON) {
   return true;
 }
 
+// Signup validation
+
+export type SignupErrorCode = UsernameErrorCode | "EMAIL_TAKEN" | "REGISTRATION_FAILED";
+
+export type SignupFailure = {
+  success: false;
+  error: SignupErrorCode;
+  message: string;
+};
+
+const SIGNUP_ERROR_MESSAGES: Record<SignupErrorCode, string> = {
+  ...USERNAME_ERROR_MESSAGES,
+  EMAIL_TAKEN: "An account with that email already exists",
+  REGISTRATION_FAILED: "Registration failed",
+};
+
+function signupFailure(error: SignupErrorCode): SignupFailure {
+  return { success: false, error, message: SIGNUP_ERROR_MESSAGES[error] };
+}
+
+async function isEmailTaken(email: string, exceptUserId?: string) {
+  const owner = await db.user.findUnique({
+    where: { email },
+    select: { id: true }
+  });
+  return !!owner && owner.id !== exceptUserId;
+}
+
+function isUniqueConstraintError(error: unknown) {
+  return (error as { code?: string } | null)?.code === "P2002";
+}
+
+// Compare case-insensitively; usernames from before normalisation may be mixed case
+async function isUsernameTaken(username: string) {
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "User" WHERE lower("username") = ${username} LIMIT 1
+  `;
+  return rows.length > 0;
+}
+
+// Normalise and validate a username for a new account, including availability
+async function checkNewUsername(username: string): Promise<{ username: string } | SignupFailure> {
+  const validation = validateUsername(username);
+  if (!validation.valid) {
+    return signupFailure(validation.error);
+  }
+
+  if (await isUsernameTaken(validation.username)) {
+    return signupFailure("USERNAME_TAKEN");
+  }
+
+  return { username: validation.username };
+}
+
+// Live check from the Signup form; the username is checked again on submit
+export async function checkUsernameAvailability(username: string) {
+  const checked = await checkNewUsername(username);
+  if ("error" in checked) {
+    return { available: false as const, error: checked.error, message: checked.message };
+  }
+
+  return { available: true as const, username: checked.username };
+}
+
 // Add email/password registration
 export async function registerWithPassword(username: string, email: string, password: string) {
+  const checked = await checkNewUsername(username);
+  if ("error" in checked) {
+    return checked;
+  }
+
+  if (await isEmailTaken(email)) {
+    return signupFailure("EMAIL_TAKEN");
+  }
+
   // Hash password
   const hashedPassword = await hashPassword(password);
 
   // Create user
-  const user = await db.user.create({
-    data: {
-      username,
-      email,
-      password: hashedPassword,
-    },
-  });
+  let user;
+  try {
+    user = await db.user.create({
+      data: {
+        username: checked.username,
+        email,
+        password: hashedPassword,
+        // Until they choose, write to them in the language their browser asks for
+        locale: resolveLocale(requestInfo.request.headers.get("accept-language")),
+      },
+    });
+  } catch (error) {
+    // Lost a race for the username or email since they were checked
+    if (isUniqueConstraintError(error)) {
+      return signupFailure(
+        (await isEmailTaken(email)) ? "EMAIL_TAKEN" : "USERNAME_TAKEN"
+      );
+    }
+    throw error;
+  }
 
   // Auto-create a basic profile for the new user
   try {
@@ -224,27 +366,77 @@ export async function registerWithPassword(username: string, email: string, pass
     // Don't fail registration if profile creation fails
   }
 
+  // Ask the new user to prove the address is theirs
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    console.error("Failed to send verification email:", error);
+    // Don't fail registration; they can resend from settings
+  }
+
   // Set session
   await sessions.save(requestInfo.headers, {
     userId: user.id,
     challenge: null,
   });
 
-  return user.id;
+  return { success: true as const, userId: user.id };
 }
 
 // Add email/password login
 export async function loginWithPassword(email: string, password: string) {
+  const limits: RateLimitKey[] = [
+    ["loginIp", getClientIp(requestInfo.request)],
+    ["loginAccount", email],
+  ];
+
+  // Refuse while the IP or account is locked out, even with the right password
+  const lockedOut = await checkRateLimits(limits);
+  if (lockedOut) return lockedOut;
+
   // Find user
   const user = await db.user.findUnique({
     where: { email },
   });
 
-  if (!user || !user.password) return false;
+  if (!user || !user.password) return (await hitRateLimits(limits)) ?? false;
 
   // Verify password
   const isValid = verifyPassword(password, user.password);
-  if (!isValid) return false;
+  if (!isValid) return (await hitRateLimits(limits)) ?? false;
+
+  await resetRateLimits([["loginAccount", email]]);
+
+  // Only revealed once the password is right, so it can't be used to probe accounts
+  if (user.disabledAt) {
+    return {
+      error: "ACCOUNT_DISABLED" as const,
+      message: "This account has been disabled. Contact the club if you think this is a mistake.",
+    };
+  }
+
+  // Transparently upgrade hashes created with outdated parameters
+  if (needsRehash(user.password)) {
+    try {
+      await db.user.update({
+        where: { id: user.id },
+        data: { password: hashPassword(password) },
+      });
+    } catch (error) {
+      console.error("Failed to rehash password for user:", user.id, error);
+      // Don't fail login if the rehash fails
+    }
+  }
+
+  // Hold off on signing in until the second factor checks out
+  if (user.totpEnabledAt && user.totpSecret) {
+    await sessions.save(requestInfo.headers, {
+      pendingUserId: user.id,
+      challenge: null,
+    });
+
+    return { twoFactorRequired: true as const };
+  }
 
   // Set session
   await sessions.save(requestInfo.headers, {
@@ -255,8 +447,310 @@ export async function loginWithPassword(email: string, password: string) {
   return true;
 }
 
+// Two-factor authentication functions
+
+// How long after the password step the second factor can be entered
+const TWO_FACTOR_LOGIN_WINDOW = 5 * 60 * 1000; // 5 minutes
+
+// Check a TOTP code or an unused recovery code, consuming whichever matched
+async function verifySecondFactor(
+  user: { id: string; totpSecret: string | null; totpLastUsedStep: number | null },
+  code: string
+) {
+  if (!user.totpSecret) return null;
+
+  const step = verifyTotp(user.totpSecret, code, { lastUsedStep: user.totpLastUsedStep });
+  if (step !== null) {
+    await db.user.update({
+      where: { id: user.id },
+      data: { totpLastUsedStep: step }
+    });
+    return "totp" as const;
+  }
+
+  // Guarding on usedAt makes each recovery code single-use even under races
+  const consumed = await db.recoveryCode.updateMany({
+    where: {
+      userId: user.id,
+      codeHash: hashRecoveryCode(code),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  });
+
+  return consumed.count > 0 ? ("recovery" as const) : null;
+}
+
+// Replace the user's recovery codes, returning the plain codes to show once
+async function issueRecoveryCodes(userId: string) {
+  const codes = generateRecoveryCodes();
+
+  await db.recoveryCode.deleteMany({
+    where: { userId }
+  });
+  await db.recoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) }))
+  });
+
+  return codes;
+}
+
+// Second login step: upgrade a pending session to a signed-in one
+export async function verifyTwoFactorLogin(code: string) {
+  const { request, headers } = requestInfo;
+
+  const session = await sessions.load(request);
+  const userId = session?.pendingUserId;
+
+  if (!userId || Date.now() - session.createdAt > TWO_FACTOR_LOGIN_WINDOW) {
+    return { success: false, error: "Your sign-in has expired. Please log in again" };
+  }
+
+  const limits: RateLimitKey[] = [["twoFactor", userId]];
+  const lockedOut = await checkRateLimits(limits);
+  if (lockedOut) {
+    return { success: false, error: lockedOut.message };
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: userId }
+  });
+
+  if (!user?.totpEnabledAt || user.disabledAt) {
+    return { success: false, error: "Your sign-in has expired. Please log in again" };
+  }
+
+  const method = await verifySecondFactor(user, code);
+  if (!method) {
+    const nowLockedOut = await hitRateLimits(limits);
+    return { success: false, error: nowLockedOut?.message ?? "Invalid code" };
+  }
+
+  await resetRateLimits(limits);
+
+  // A fresh session ID, so the pending one can't be reused
+  await sessions.save(headers, {
+    userId: user.id,
+    challenge: null,
+  });
+
+  return { success: true, usedRecoveryCode: method === "recovery" };
+}
+
+// Generate a secret for the user to add to their authenticator app. 2FA
+// stays off until confirmTwoFactorEnrollment sees a valid code.
+export async function startTwoFactorEnrollment() {
+  const { ctx, request } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!ctx.user.password) {
+    return { success: false, error: "Add a password before enabling two-factor authentication" };
+  }
+
+  if (ctx.user.totpEnabledAt) {
+    return { success: false, error: "Two-factor authentication is already enabled" };
+  }
+
+  const secret = generateTotpSecret();
+  await db.user.update({
+    where: { id: ctx.user.id },
+    data: { totpSecret: secret, totpLastUsedStep: null }
+  });
+
+  const { rpName } = getWebAuthnConfig(request);
+  const otpauthUri = buildOtpauthUri(secret, ctx.user.email ?? ctx.user.username, rpName);
+
+  return { success: true, secret, otpauthUri };
+}
+
+export async function confirmTwoFactorEnrollment(code: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: ctx.user.id }
+  });
+
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    return { success: false, error: "Start two-factor setup first" };
+  }
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step === null) {
+    return { success: false, error: "Invalid code. Check your authenticator app and try again" };
+  }
+
+  try {
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step }
+    });
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    console.error("Error enabling two-factor authentication:", error);
+    return { success: false, error: "Failed to enable two-factor authentication" };
+  }
+}
+
+export async function regenerateRecoveryCodes(code: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: ctx.user.id }
+  });
+
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return { success: false, error: "Two-factor authentication is not enabled" };
+  }
+
+  // Only a live authenticator code; a recovery code can't mint new ones
+  const step = verifyTotp(user.totpSecret, code, { lastUsedStep: user.totpLastUsedStep });
+  if (step === null) {
+    return { success: false, error: "Invalid code" };
+  }
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { totpLastUsedStep: step }
+  });
+
+  const recoveryCodes = await issueRecoveryCodes(user.id);
+  return { success: true, recoveryCodes };
+}
+
+export async function disableTwoFactor(password: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!ctx.user.password || !verifyPassword(password, ctx.user.password)) {
+    return { success: false, error: "Incorrect password" };
+  }
+
+  await db.user.update({
+    where: { id: ctx.user.id },
+    data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null }
+  });
+  await db.recoveryCode.deleteMany({
+    where: { userId: ctx.user.id }
+  });
+
+  return { success: true };
+}
+
+// Email verification functions
+
+// Issue a fresh verification token for the user's current email and send it
+async function sendVerificationEmail(user: {
+  id: string;
+  username: string;
+  email: string | null;
+  locale?: string | null;
+}) {
+  if (!user.email) return false;
+
+  const token = randomBytes(32).toString('hex');
+  const expires = new Date(Date.now() + 24 * 3600000); // 24 hours from now
+
+  // Only the most recent link should work
+  await db.emailVerification.deleteMany({
+    where: { userId: user.id }
+  });
+
+  await db.emailVerification.create({
+    data: {
+      userId: user.id,
+      email: user.email,
+      token,
+      expires
+    }
+  });
+
+  const { request } = requestInfo;
+  const baseUrl = new URL(request.url).origin;
+  const verifyLink = `${baseUrl}/user/verify-email?token=${token}`;
+
+  return await sendTemplateEmail(
+    user.email,
+    "emailVerification",
+    { username: user.username, verifyLink },
+    user.locale
+  );
+}
+
+export async function resendVerificationEmail() {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!ctx.user.email) {
+    return { success: false, error: "Add an email address first" };
+  }
+
+  if (ctx.user.emailVerifiedAt) {
+    return { success: false, error: "Your email is already verified" };
+  }
+
+  const lockedOut = await hitRateLimits([["emailVerification", ctx.user.id]]);
+  if (lockedOut) {
+    return { success: false, error: lockedOut.message };
+  }
+
+  const sent = await sendVerificationEmail(ctx.user);
+  if (!sent) {
+    return { success: false, error: "Failed to send verification email" };
+  }
+
+  return { success: true };
+}
+
+export async function verifyEmail(token: string) {
+  const verification = await db.emailVerification.findFirst({
+    where: {
+      token,
+      expires: { gt: new Date() }
+    },
+    include: { user: true }
+  });
+
+  // The link is for an address the user no longer has
+  if (!verification || verification.user.email !== verification.email) {
+    return false;
+  }
+
+  await db.user.update({
+    where: { id: verification.userId },
+    data: { emailVerifiedAt: new Date() }
+  });
+
+  await db.emailVerification.deleteMany({
+    where: { userId: verification.userId }
+  });
+
+  return true;
+}
+
 // Add function to link passkey to existing account
 export async function addPasskeyToExistingAccount(userId: string, registration: RegistrationResponseJSON) {
+  requireSelf(userId);
+
   const { request, headers } = requestInfo;
   const { origin } = new URL(request.url);
 
@@ -278,7 +772,7 @@ export async function addPasskeyToExistingAccount(userId: string, registration:
     return false;
   }
 
-  await sessions.save(headers, { challenge: null });
+  await saveChallenge(env, requestInfo.ctx.session, headers, null);
 
   // Create credential for existing user
   await db.credential.create({
@@ -289,24 +783,7 @@ export async function addPasskeyToExistingAccount(userId: string, registration:
         verification.registrationInfo.credential.publicKey
       ),
       counter: verification.registrationInfo.credential.counter,
-      deviceName: (() => {
-        const userAgent = request.headers.get('user-agent') || 'Unknown Device';
-        const now = new Date();
-        const dateStr = now.toISOString().split('T')[0];
-
-        // Extract device info from user agent
-        const isMobile = /Mobile|Android|iPhone|iPad/i.test(userAgent);
-        const deviceType = isMobile ? 'Mobile' : 'Desktop';
-
-        // Try to extract browser name
-        let browserName = 'Browser';
-        if (/Chrome/i.test(userAgent) && !/Chromium|Edge/i.test(userAgent)) browserName = 'Chrome';
-        else if (/Firefox/i.test(userAgent)) browserName = 'Firefox';
-        else if (/Safari/i.test(userAgent) && !/Chrome|Chromium|Edge/i.test(userAgent)) browserName = 'Safari';
-        else if (/Edge|Edg/i.test(userAgent)) browserName = 'Edge';
-
-        return `${browserName} on ${deviceType} (${dateStr})`;
-      })(),
+      deviceName: getDefaultDeviceName(request),
     },
   });
 
@@ -315,18 +792,244 @@ export async function addPasskeyToExistingAccount(userId: string, registration:
 
 // Add function to link email/password to passkey account
 export async function addPasswordToPasskeyAccount(userId: string, email: string, password: string) {
-  const hashedPassword = await hashPassword(password);
+  requireSelf(userId);
 
-  // Update existing user
-  await db.user.update({
+  const existing = await db.user.findUnique({
     where: { id: userId },
-    data: {
-      email,
-      password: hashedPassword,
-    },
+    select: { email: true, password: true }
   });
 
-  return true;
+  if (!existing) {
+    return { success: false, error: "User not found" };
+  }
+
+  // Changing an existing address goes through requestEmailChange instead
+  if (existing.email || existing.password) {
+    return { success: false, error: "This account already has an email and password" };
+  }
+
+  if (await isEmailTaken(email, userId)) {
+    return { success: false, error: "That email address is already in use" };
+  }
+
+  const hashedPassword = await hashPassword(password);
+
+  let user;
+  try {
+    user = await db.user.update({
+      where: { id: userId },
+      data: {
+        email,
+        emailVerifiedAt: null,
+        password: hashedPassword,
+      },
+    });
+  } catch (error) {
+    // Lost a race with another signup for the same address
+    if (isUniqueConstraintError(error)) {
+      return { success: false, error: "That email address is already in use" };
+    }
+    throw error;
+  }
+
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    console.error("Failed to send verification email:", error);
+  }
+
+  return { success: true };
+}
+
+// Email change functions
+
+const EMAIL_CHANGE_CONFIRM_WINDOW = 24 * 3600000; // 24 hours
+const EMAIL_CHANGE_REVERT_WINDOW = 7 * 24 * 3600000; // 7 days
+
+// Start an email change; nothing changes until the new address is confirmed
+export async function requestEmailChange(newEmail: string) {
+  const { ctx, request } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  const email = newEmail.trim();
+
+  if (!email.includes("@")) {
+    return { success: false, error: "Please enter a valid email address" };
+  }
+
+  if (email.toLowerCase() === ctx.user.email?.toLowerCase()) {
+    return { success: false, error: "That is already your email address" };
+  }
+
+  if (await isEmailTaken(email, ctx.user.id)) {
+    return { success: false, error: "That email address is already in use" };
+  }
+
+  const lockedOut = await hitRateLimits([["emailChange", ctx.user.id]]);
+  if (lockedOut) {
+    return { success: false, error: lockedOut.message };
+  }
+
+  try {
+    // Only the most recent request should be confirmable
+    await db.emailChange.deleteMany({
+      where: { userId: ctx.user.id, confirmedAt: null }
+    });
+
+    const token = randomBytes(32).toString('hex');
+    await db.emailChange.create({
+      data: {
+        userId: ctx.user.id,
+        oldEmail: ctx.user.email,
+        newEmail: email,
+        token,
+        revertToken: randomBytes(32).toString('hex'),
+        expires: new Date(Date.now() + EMAIL_CHANGE_CONFIRM_WINDOW),
+      }
+    });
+
+    const baseUrl = new URL(request.url).origin;
+    const confirmLink = `${baseUrl}/user/confirm-email-change?token=${token}`;
+
+    const sent = await sendTemplateEmail(
+      email,
+      "emailChangeConfirmation",
+      { username: ctx.user.username, newEmail: email, confirmLink },
+      ctx.user.locale
+    );
+    if (!sent) {
+      return { success: false, error: "Failed to send confirmation email" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error requesting email change:", error);
+    return { success: false, error: "Failed to request email change" };
+  }
+}
+
+// Apply a change from the link sent to the new address, then tell the old one
+export async function confirmEmailChange(token: string) {
+  try {
+    const change = await db.emailChange.findFirst({
+      where: {
+        token,
+        confirmedAt: null,
+        expires: { gt: new Date() }
+      },
+      include: { user: true }
+    });
+
+    // Another change went through since this one was requested
+    if (!change || change.user.email !== change.oldEmail) {
+      return { success: false, error: "This confirmation link is invalid or has expired" };
+    }
+
+    if (await isEmailTaken(change.newEmail, change.userId)) {
+      return { success: false, error: "That email address is already in use" };
+    }
+
+    try {
+      await db.user.update({
+        where: { id: change.userId },
+        // Following the link proves ownership of the new address
+        data: { email: change.newEmail, emailVerifiedAt: new Date() }
+      });
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        return { success: false, error: "That email address is already in use" };
+      }
+      throw error;
+    }
+
+    await db.emailChange.update({
+      where: { id: change.id },
+      data: { confirmedAt: new Date() }
+    });
+
+    // Links sent to the previous address no longer apply
+    await db.emailVerification.deleteMany({
+      where: { userId: change.userId }
+    });
+    await db.passwordReset.deleteMany({
+      where: { userId: change.userId }
+    });
+
+    if (change.oldEmail) {
+      try {
+        const { request } = requestInfo;
+        const baseUrl = new URL(request.url).origin;
+        const revertLink = `${baseUrl}/user/revert-email-change?token=${change.revertToken}`;
+
+        await sendTemplateEmail(
+          change.oldEmail,
+          "emailChangedNotification",
+          { username: change.user.username, newEmail: change.newEmail, revertLink },
+          change.user.locale
+        );
+      } catch (error) {
+        console.error("Failed to send email change notification:", error);
+        // The change itself succeeded
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error confirming email change:", error);
+    return { success: false, error: "Failed to confirm email change" };
+  }
+}
+
+// One-click undo from the notification sent to the old address. Assumes the
+// account may be compromised, so every session is signed out.
+export async function revertEmailChange(token: string) {
+  try {
+    const change = await db.emailChange.findFirst({
+      where: {
+        revertToken: token,
+        revertedAt: null,
+        confirmedAt: { gt: new Date(Date.now() - EMAIL_CHANGE_REVERT_WINDOW) }
+      },
+      include: { user: true }
+    });
+
+    if (!change || !change.oldEmail) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    if (await isEmailTaken(change.oldEmail, change.userId)) {
+      return { success: false, error: "That email address is now used by another account" };
+    }
+
+    await db.user.update({
+      where: { id: change.userId },
+      data: { email: change.oldEmail, emailVerifiedAt: new Date() }
+    });
+
+    await db.emailChange.update({
+      where: { id: change.id },
+      data: { revertedAt: new Date() }
+    });
+
+    // Drop any other pending changes the intruder may have started
+    await db.emailChange.deleteMany({
+      where: { userId: change.userId, confirmedAt: null }
+    });
+
+    try {
+      await revokeAllUserSessions(change.userId);
+    } catch (error) {
+      console.error("Failed to revoke sessions after email revert:", error);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error reverting email change:", error);
+    return { success: false, error: "Failed to restore email address" };
+  }
 }
 
 export async function removePasskey(credentialId: string) {
@@ -339,78 +1042,159 @@ export async function removePasskey(credentialId: string) {
   }
 
   try {
-    // Delete the credential, ensuring it belongs to the authenticated user
-    await db.credential.delete({
+    // Look the credential up first so it's only ever one of the user's own
+    const credential = await db.credential.findFirst({
       where: {
         credentialId: credentialId,
         userId: ctx.user.id,
       },
     });
+
+    if (!credential) {
+      return { success: false, error: "Passkey not found" };
+    }
+
+    // Never let a user remove their very last way of signing in. The check
+    // lives in the DELETE itself so two removals racing each other can't
+    // both see a second passkey and leave the account with none.
+    const removed = await db.$executeRaw`
+      DELETE FROM "Credential"
+      WHERE "id" = ${credential.id}
+        AND (
+          EXISTS (SELECT 1 FROM "User" WHERE "id" = ${ctx.user.id} AND "password" IS NOT NULL)
+          OR (SELECT COUNT(*) FROM "Credential" WHERE "userId" = ${ctx.user.id}) > 1
+        )
+    `;
+
+    if (removed === 0) {
+      return {
+        success: false,
+        error: "You can't remove your only sign-in method. Add another passkey or a password first.",
+      };
+    }
+
+    await recordAudit({
+      action: "passkey.removed",
+      targetType: "Credential",
+      targetId: credential.id,
+      before: { deviceName: credential.deviceName, createdAt: credential.createdAt },
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error removing passkey:", error);
-    return { success: false, error: error instanceof Error ? error.message : "Failed to remove passkey" };
+    return { success: false, error: "Failed to remove passkey" };
   }
 }
 
-// Add password reset functions
-export async function requestPasswordReset(email: string) {
-  // Find user
-  const user = await db.user.findUnique({
-    where: { email },
-  });
+// Sign out one of the user's other devices
+export async function signOutSession(sessionId: string) {
+  const { ctx } = requestInfo;
 
-  if (!user) return false; // Don't reveal if email exists
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
 
-  // Generate token (random string)
-  const token = randomBytes(32).toString('hex');
-  const expires = new Date(Date.now() + 3600000); // 1 hour from now
+  if (sessionId === ctx.session?.id) {
+    return { success: false, error: "Use Logout to sign out of this device" };
+  }
 
-  // First check if a reset token already exists
-  const existingReset = await db.passwordReset.findFirst({
-    where: { userId: user.id }
-  });
+  try {
+    const revoked = await revokeUserSession(ctx.user.id, sessionId);
+    if (!revoked) {
+      return { success: false, error: "Session not found" };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error("Error signing out session:", error);
+    return { success: false, error: "Failed to sign out session" };
+  }
+}
+
+// Sign out every device except the one making the request
+export async function signOutOtherSessions() {
+  const { ctx } = requestInfo;
 
-  if (existingReset) {
-    // Update existing token
-    await db.passwordReset.update({
-      where: { id: existingReset.id },
-      data: { token, expires }
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  try {
+    const count = await revokeAllUserSessions(ctx.user.id, {
+      except: ctx.session?.id,
     });
-  } else {
-    // Create new token
-    await db.passwordReset.create({
-      data: {
-        userId: user.id,
-        token,
-        expires
-      }
+    return { success: true, count };
+  } catch (error) {
+    console.error("Error signing out other sessions:", error);
+    return { success: false, error: "Failed to sign out other sessions" };
+  }
+}
+
+export async function renamePasskey(credentialId: string, deviceName: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  const name = deviceName.trim();
+  if (!name || name.length > 64) {
+    return { success: false, error: "Passkey name must be between 1 and 64 characters" };
+  }
+
+  try {
+    // Only rename credentials that belong to the authenticated user
+    const { count } = await db.credential.updateMany({
+      where: {
+        credentialId,
+        userId: ctx.user.id,
+      },
+      data: { deviceName: name },
     });
+
+    if (count === 0) {
+      return { success: false, error: "Passkey not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error renaming passkey:", error);
+    return { success: false, error: "Failed to rename passkey" };
   }
+}
 
-  // Generate reset link
-  const { request } = requestInfo;
-  const baseUrl = new URL(request.url).origin;
-  const resetLink = `${baseUrl}/user/reset-password?token=${token}`;
+// Add password reset functions
+export async function requestPasswordReset(email: string) {
+  // Count every request, whether or not the email exists
+  const lockedOut = await hitRateLimits([
+    ["passwordResetIp", getClientIp(requestInfo.request)],
+    ["passwordResetAccount", email],
+  ]);
+  if (lockedOut) return lockedOut;
+
+  // Find user
+  const user = await db.user.findUnique({
+    where: { email },
+  });
 
-  // Send email
-  const emailContent = generatePasswordResetEmail(user.username, resetLink);
-  // await sendEmail(email, "Password Reset Request", emailContent);
-  await sendEmail("eivind.melleby@gmail.com", "Password Reset Request", emailContent);
+  if (!user || !user.email) return false; // Don't reveal if email exists
+
+  await issuePasswordReset(user, user.email);
 
   return true;
 }
 
+// Only the username goes back to the client; the User row holds secrets
 export async function verifyResetToken(token: string) {
   const reset = await db.passwordReset.findFirst({
     where: {
       token,
       expires: { gt: new Date() }
     },
-    include: { user: true }
+    select: { user: { select: { username: true } } }
   });
 
-  return reset ? reset.user : null;
+  return reset ? { username: reset.user.username } : null;
 }
 
 export async function resetPassword(token: string, newPassword: string) {
@@ -437,5 +1221,68 @@ export async function resetPassword(token: string, newPassword: string) {
     where: { id: reset.id }
   });
 
+  // Whoever had the old password may still be signed in somewhere
+  try {
+    await revokeAllUserSessions(reset.userId);
+  } catch (error) {
+    console.error("Failed to revoke sessions after password reset:", error);
+  }
+
   return true;
 }
+
+// Account deletion
+
+// Permanently delete the signed-in user's account. Requires typing the
+// username, and the password for accounts that have one.
+export async function deleteAccount(confirmUsername: string, password?: string) {
+  const { ctx, request, headers } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (confirmUsername.trim() !== ctx.user.username) {
+    return { success: false, error: "Type your username exactly to confirm" };
+  }
+
+  if (ctx.user.password && (!password || !verifyPassword(password, ctx.user.password))) {
+    return { success: false, error: "Incorrect password" };
+  }
+
+  try {
+    const deleted = await deleteUserAccount(ctx.user.id);
+    if (!deleted.success) {
+      return deleted;
+    }
+  } catch (error) {
+    console.error("Error deleting account:", error);
+    return { success: false, error: "Failed to delete account" };
+  }
+
+  // Clear the cookie; the session itself was revoked with the account
+  await sessions.remove(request, headers);
+
+  return { success: true };
+}
+
+// Email preferences
+
+export async function updateEmailLocale(locale: string) {
+  const { ctx } = requestInfo;
+
+  if (!ctx.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!SUPPORTED_LOCALES.includes(locale as Locale)) {
+    return { success: false, error: "Unsupported language" };
+  }
+
+  await db.user.update({
+    where: { id: ctx.user.id },
+    data: { locale }
+  });
+
+  return { success: true };
+}
@@ -1,6 +1,6 @@
 import { HomeLayout } from "@/app/layouts/HomeLayout";
 import { RequestInfo } from "rwsdk/worker";
-import { getOrCreateUserProfile } from "./functions";
+import { getOrCreateUserProfile } from "./profiles";
 
 import { db } from "@/db"; // Add db import
 
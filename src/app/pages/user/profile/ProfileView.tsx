@@ -12,10 +12,9 @@ import { MapPin, Calendar, Award, Anchor } from "lucide-react";
 interface ProfileViewProps {
   profileUserId: string;
   isOwnProfile?: boolean;
-  currentUserId?: string;
 }
 
-export default function ProfileView({ profileUserId, isOwnProfile = false, currentUserId }: ProfileViewProps) {
+export default function ProfileView({ profileUserId, isOwnProfile = false }: ProfileViewProps) {
   const [profile, setProfile] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
@@ -24,7 +23,7 @@ export default function ProfileView({ profileUserId, isOwnProfile = false, curre
     const loadProfile = async () => {
       try {
         setLoading(true);
-        const profileData = await getPublicProfile(profileUserId, currentUserId);
+        const profileData = await getPublicProfile(profileUserId);
 
         if (!profileData) {
           setError("Profile not found");
@@ -41,7 +40,7 @@ export default function ProfileView({ profileUserId, isOwnProfile = false, curre
     };
 
     loadProfile();
-  }, [profileUserId, currentUserId]);
+  }, [profileUserId]);
 
   if (loading) {
     return (
@@ -3,7 +3,10 @@ import { Login } from "./Login";
 import { Signup } from "./Signup";
 import ForgotPassword from "./ForgotPassword";
 import ResetPassword from "./ResetPassword";
+import VerifyEmail from "./VerifyEmail";
+import EmailChange from "./EmailChange";
 import { sessions } from "@/session/store";
+import { listUserSessions, forgetUserSession } from "@/session/registry";
 import AuthSettings from "./settings/AuthSettings";
 import ProfileSetup from "./profile/ProfileSetup";
 
@@ -11,6 +14,8 @@ import ProfilePage from "./profile/ProfilePage";
 import ProfileEditPage from "./profile/ProfileEditPage";
 import { AppContext } from "@/worker";
 import { db } from "@/db";
+import { exportUserData } from "./account";
+import { resolveLocale } from "@/email/templates";
 
 
 
@@ -25,17 +30,46 @@ const isAuthenticated = ({ ctx }: { ctx: AppContext }) => {
 };
 
 export const userRoutes = [
-  route("/login", [Login]),
+  route("/login", ({ ctx }) => <Login signedIn={!!ctx.user} />),
   route("/signup", [Signup]),
   route("/forgot-password", ForgotPassword),
   route("/reset-password", ResetPassword),
+  route("/verify-email", VerifyEmail),
+  route("/confirm-email-change", () => <EmailChange action="confirm" />),
+  route("/revert-email-change", () => <EmailChange action="revert" />),
+
+  // "Download my data": everything we hold about the signed-in user as JSON.
+  // Not available while a SUPERUSER is viewing as the user.
+  route("/export", [isAuthenticated, async ({ ctx }) => {
+    if (ctx.impersonator) {
+      return new Response("Not available while viewing as another user", { status: 403 });
+    }
+
+    const data = await exportUserData(ctx.user!.id);
+
+    if (!data) {
+      return new Response("User not found", { status: 404 });
+    }
+
+    const date = new Date().toISOString().split("T")[0];
+    return new Response(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="ilca-kns-data-${ctx.user!.username}-${date}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }]),
 
   route("/:username/settings", [isAuthenticated, async ({ ctx }) => {
     // User is guaranteed to exist due to isAuthenticated interceptor
     // Fetch user with credentials for complete data
     const userWithCredentials = await db.user.findUnique({
       where: { id: ctx.user!.id },
-      include: { credentials: true }
+      include: {
+        credentials: true,
+        _count: { select: { recoveryCodes: { where: { usedAt: null } } } }
+      }
     });
 
     if (!userWithCredentials) {
@@ -47,14 +81,40 @@ export const userRoutes = [
       id: userWithCredentials.id,
       username: userWithCredentials.username,
       email: userWithCredentials.email,
+      emailVerified: !!userWithCredentials.emailVerifiedAt,
       role: userWithCredentials.role,
       createdAt: userWithCredentials.createdAt?.toISOString(),
       club: userWithCredentials.club,
+      locale: resolveLocale(userWithCredentials.locale),
       password: !!userWithCredentials.password, // Just boolean for security
-      credentials: userWithCredentials.credentials || []
+      twoFactorEnabled: !!userWithCredentials.totpEnabledAt,
+      recoveryCodesRemaining: userWithCredentials._count.recoveryCodes,
+      // Only the fields the UI needs; never send public keys to the client
+      credentials: (userWithCredentials.credentials || []).map((credential) => ({
+        id: credential.id,
+        credentialId: credential.credentialId,
+        deviceName: credential.deviceName,
+        createdAt: credential.createdAt.toISOString(),
+        lastUsedAt: credential.lastUsedAt?.toISOString() ?? null,
+      })),
     };
 
-    return <AuthSettings user={userData} />;
+    const activeSessions = (await listUserSessions(userWithCredentials.id)).map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt.toISOString(),
+      lastSeenAt: session.lastSeenAt.toISOString(),
+    }));
+
+    return (
+      <AuthSettings
+        user={userData}
+        sessions={activeSessions}
+        currentSessionId={ctx.session?.id ?? null}
+      />
+    );
   }]),
 
   // Profile routes
@@ -108,9 +168,12 @@ export const userRoutes = [
 
 
 
-  route("/logout", async function ({ request }) {
+  route("/logout", async function ({ request, ctx }) {
     const headers = new Headers();
     await sessions.remove(request, headers);
+    if (ctx.session?.id) {
+      await forgetUserSession(ctx.session.id);
+    }
     headers.set("Location", "/home");
 
     return new Response(null, {
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { deleteAccount } from "../functions";
+import { Button } from "@/app/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/app/components/ui/card";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { link } from "@/app/shared/links";
+
+export function AccountData({
+  username,
+  hasPassword,
+}: {
+  username: string;
+  hasPassword: boolean;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+
+  const [showDelete, setShowDelete] = useState(false);
+  const [confirmUsername, setConfirmUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleDelete = async () => {
+    const result = await deleteAccount(confirmUsername, hasPassword ? password : undefined);
+    if (result.success) {
+      window.location.href = link("/");
+    } else {
+      setResult("Failed to delete account: " + result.error);
+    }
+  };
+
+  return (
+    <Card className="mt-6 border-red-300">
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>
+          Download a copy of your data or permanently delete your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <p className="mb-2 text-sm text-muted-foreground">
+            Includes your account details, profile, posts, comments, kudos,
+            organization memberships, passkeys and signed-in devices.
+          </p>
+          <Button variant="outline" asChild>
+            <a href={link("/user/export")} download>
+              Download my data
+            </a>
+          </Button>
+        </div>
+
+        {!showDelete ? (
+          <Button variant="destructive" onClick={() => setShowDelete(true)}>
+            Delete my account
+          </Button>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              startTransition(() => void handleDelete());
+            }}
+          >
+            <p className="text-sm">
+              This can't be undone. Your profile, passkeys, drafts, kudos and
+              memberships are removed. Published posts and comments stay up
+              but are shown as written by a deleted user. If you're the only
+              admin of an organization, make someone else an admin first.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="confirmUsername">
+                Type <strong>{username}</strong> to confirm
+              </Label>
+              <Input
+                id="confirmUsername"
+                value={confirmUsername}
+                onChange={(e) => setConfirmUsername(e.target.value)}
+                autoComplete="off"
+                required
+              />
+            </div>
+            {hasPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="deletePassword">Password</Label>
+                <Input
+                  id="deletePassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={isPending || confirmUsername.trim() !== username}
+              >
+                {isPending ? "Deleting..." : "Permanently delete account"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowDelete(false)}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {result && (
+          <div className="p-3 rounded-md bg-red-100 text-red-800">{result}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
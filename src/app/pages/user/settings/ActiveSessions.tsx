@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { signOutSession, signOutOtherSessions } from "../functions";
+import { Button } from "@/app/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/app/components/ui/card";
+import { Badge } from "@/app/components/ui/badge";
+
+// Session fields passed down from the settings route
+export type SessionSummary = {
+  id: string;
+  deviceName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+};
+
+export function ActiveSessions({
+  sessions,
+  currentSessionId,
+}: {
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+
+  const otherSessions = sessions.filter((session) => session.id !== currentSessionId);
+
+  const handleSignOut = async (sessionId: string) => {
+    const result = await signOutSession(sessionId);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to sign out device: " + result.error);
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    const result = await signOutOtherSessions();
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to sign out other devices: " + result.error);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Where You're Signed In</CardTitle>
+        <CardDescription>
+          Devices that are currently signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-4">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-4"
+            >
+              <div>
+                <div className="flex items-center gap-2 font-medium">
+                  {session.deviceName || "Unknown Device"}
+                  {session.id === currentSessionId && (
+                    <Badge variant="secondary">This device</Badge>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {session.ipAddress && <>{session.ipAddress} · </>}
+                  Signed in {new Date(session.createdAt).toLocaleDateString()} ·
+                  Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </div>
+              </div>
+              {session.id !== currentSessionId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    startTransition(() => void handleSignOut(session.id))
+                  }
+                  disabled={isPending}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {otherSessions.length > 0 && (
+          <Button
+            variant="destructive"
+            className="mt-6"
+            onClick={() => startTransition(() => void handleSignOutOthers())}
+            disabled={isPending}
+          >
+            {isPending ? "Signing out..." : "Sign out everywhere else"}
+          </Button>
+        )}
+
+        {result && (
+          <div className="mt-4 p-3 rounded-md bg-red-100 text-red-800">
+            {result}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
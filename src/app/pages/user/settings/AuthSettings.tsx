@@ -8,9 +8,12 @@ import {
   addPasswordToPasskeyAccount,
   startPasskeyRegistration,
   removePasskey,
+  renamePasskey,
+  resendVerificationEmail,
+  requestEmailChange,
+  updateEmailLocale,
 } from "../functions";
 import { Button } from "@/app/components/ui/button";
-import type { Credential } from "@/db";
 import {
   Card,
   CardContent,
@@ -20,19 +23,59 @@ import {
 } from "@/app/components/ui/card";
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/app/components/ui/select";
 import { ClientOnly } from "@/app/components/ClientOnly";
 import { CardSkeleton } from "@/app/components/ui/skeleton";
+import { ActiveSessions, type SessionSummary } from "./ActiveSessions";
+import { TwoFactorSettings } from "./TwoFactorSettings";
+import { AccountData } from "./AccountData";
+
+// Passkey fields passed down from the settings route
+type PasskeySummary = {
+  id: string;
+  credentialId: string;
+  deviceName: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+const formatDate = (dateString: string | null) =>
+  dateString ? new Date(dateString).toLocaleDateString() : "Never";
 
 // Change to default export to match the import in routes.ts
-export default function AuthSettings({ user }: { user: any }) {
+export default function AuthSettings({
+  user,
+  sessions = [],
+  currentSessionId = null,
+}: {
+  user: any;
+  sessions?: SessionSummary[];
+  currentSessionId?: string | null;
+}) {
   const [isPending, startTransition] = useTransition();
   const [result, setResult] = useState("");
 
+  // Passkey rename state
+  const [editingPasskeyId, setEditingPasskeyId] = useState<string | null>(null);
+  const [passkeyName, setPasskeyName] = useState("");
+
+  // A passkey-only account must keep at least one passkey
+  const isLastSignInMethod = !user?.password && user?.credentials?.length <= 1;
+
   // Email/password states
   const [email, setEmail] = useState(user?.email || "");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
 
+  // Email change state
+  const [newEmail, setNewEmail] = useState("");
+
   // Add passkey to account with email/password
   const addPasskey = async () => {
     try {
@@ -68,17 +111,17 @@ export default function AuthSettings({ user }: { user: any }) {
 
     startTransition(async () => {
       try {
-        const success = await addPasswordToPasskeyAccount(
+        const result = await addPasswordToPasskeyAccount(
           user.id,
           email,
           password
         );
-        if (success) {
+        if (result.success) {
           setResult("Email and password added successfully");
           // Refresh the page to update the UI
           window.location.reload();
         } else {
-          setResult("Failed to add email and password");
+          setResult("Failed to add email and password: " + result.error);
         }
       } catch (error) {
         console.error("Error adding email/password:", error);
@@ -99,12 +142,80 @@ export default function AuthSettings({ user }: { user: any }) {
     }
   };
 
+  // Client-side handler to resend the verification email
+  const handleResendVerification = async () => {
+    const result = await resendVerificationEmail();
+    if (result.success) {
+      setResult("Verification email sent successfully");
+    } else {
+      setResult("Failed to send verification email: " + result.error);
+    }
+  };
+
+  // Client-side handler to start an email change
+  const handleRequestEmailChange = async () => {
+    const result = await requestEmailChange(newEmail);
+    if (result.success) {
+      setResult(
+        `Confirmation link sent successfully to ${newEmail}. Your email will change once you follow it.`
+      );
+      setNewEmail("");
+    } else {
+      setResult("Failed to change email: " + result.error);
+    }
+  };
+
+  // Client-side handler to change the language emails are sent in
+  const handleLocaleChange = async (locale: string) => {
+    const result = await updateEmailLocale(locale);
+    if (result.success) {
+      setResult("Email language updated successfully");
+    } else {
+      setResult("Failed to update email language: " + result.error);
+    }
+  };
+
+  // Client-side handler to rename a passkey
+  const handleRenamePasskey = async (credentialId: string) => {
+    const result = await renamePasskey(credentialId, passkeyName);
+    if (result.success) {
+      setResult("Passkey renamed successfully");
+      window.location.reload();
+    } else {
+      setResult("Failed to rename passkey: " + result.error);
+    }
+  };
+
   return (
     <SidebarLayout>
     <ClientOnly fallback={<CardSkeleton />}>
       
         <h1 className="text-2xl font-bold mb-6">Authentication Settings</h1>
 
+        {/* Prompt to verify an unverified email address */}
+        {user?.email && !user?.emailVerified && (
+          <Card className="mb-6 border-amber-300">
+            <CardHeader>
+              <CardTitle>Verify Your Email</CardTitle>
+              <CardDescription>
+                We sent a verification link to {user.email}. You need a
+                verified email to accept organization invitations.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  startTransition(() => void handleResendVerification())
+                }
+                disabled={isPending}
+              >
+                {isPending ? "Sending..." : "Resend Verification Email"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Show appropriate card based on user's current auth method */}
         {!user?.password && (
           <Card className="mb-6">
@@ -155,6 +266,70 @@ export default function AuthSettings({ user }: { user: any }) {
           </Card>
         )}
 
+        {user?.email && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Change Email</CardTitle>
+              <CardDescription>
+                Your current email is {user.email}. We'll send a confirmation
+                link to the new address and let the old one know.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  startTransition(() => void handleRequestEmailChange());
+                }}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="newEmail">New Email</Label>
+                  <Input
+                    id="newEmail"
+                    type="email"
+                    value={newEmail}
+                    onChange={(e) => setNewEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={isPending}>
+                  {isPending ? "Sending..." : "Change Email"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {user?.email && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Email Language</CardTitle>
+              <CardDescription>
+                The language we use for emails about your account
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Select
+                defaultValue={user.locale}
+                onValueChange={(value) =>
+                  startTransition(() => void handleLocaleChange(value))
+                }
+                disabled={isPending}
+              >
+                <SelectTrigger className="w-48" aria-label="Email language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="nb">Norsk (bokmål)</SelectItem>
+                  <SelectItem value="en">English</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Always show Add Passkey option to allow adding multiple devices */}
         <Card>
           <CardHeader>
@@ -240,29 +415,88 @@ export default function AuthSettings({ user }: { user: any }) {
               <CardDescription>Manage your registered passkeys</CardDescription>
             </CardHeader>
             <CardContent>
-              <ul className="space-y-2">
-                {user.credentials.map((credential: Credential) => (
+              <ul className="space-y-4">
+                {user.credentials.map((credential: PasskeySummary) => (
                   <li
                     key={credential.id}
                     className="flex items-center justify-between gap-4"
                   >
-                    <span>
-                      {credential.deviceName ||
-                        `Passkey ID: ${credential.credentialId}`}
-                    </span>
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() =>
-                        startTransition(
-                          () =>
-                            void handleRemovePasskey(credential.credentialId)
-                        )
-                      }
-                      disabled={isPending}
-                    >
-                      Remove
-                    </Button>
+                    {editingPasskeyId === credential.credentialId ? (
+                      <form
+                        className="flex flex-1 items-center gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          startTransition(
+                            () =>
+                              void handleRenamePasskey(credential.credentialId)
+                          );
+                        }}
+                      >
+                        <Input
+                          aria-label="Passkey name"
+                          value={passkeyName}
+                          onChange={(e) => setPasskeyName(e.target.value)}
+                          maxLength={64}
+                          required
+                        />
+                        <Button type="submit" size="sm" disabled={isPending}>
+                          Save
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingPasskeyId(null)}
+                          disabled={isPending}
+                        >
+                          Cancel
+                        </Button>
+                      </form>
+                    ) : (
+                      <>
+                        <div>
+                          <div className="font-medium">
+                            {credential.deviceName ||
+                              `Passkey ID: ${credential.credentialId}`}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            Added {formatDate(credential.createdAt)} · Last used{" "}
+                            {formatDate(credential.lastUsedAt)}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setEditingPasskeyId(credential.credentialId);
+                              setPasskeyName(credential.deviceName || "");
+                            }}
+                            disabled={isPending}
+                          >
+                            Rename
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() =>
+                              startTransition(
+                                () =>
+                                  void handleRemovePasskey(credential.credentialId)
+                              )
+                            }
+                            disabled={isPending || isLastSignInMethod}
+                            title={
+                              isLastSignInMethod
+                                ? "Add another passkey or a password before removing this one"
+                                : undefined
+                            }
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      </>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -270,6 +504,18 @@ export default function AuthSettings({ user }: { user: any }) {
           </Card>
         )}
 
+        {/* TOTP is a second factor for password sign-in only */}
+        {user?.password && (
+          <TwoFactorSettings
+            enabled={!!user.twoFactorEnabled}
+            recoveryCodesRemaining={user.recoveryCodesRemaining ?? 0}
+          />
+        )}
+
+        <ActiveSessions sessions={sessions} currentSessionId={currentSessionId} />
+
+        <AccountData username={user.username} hasPassword={!!user.password} />
+
         {result && (
           <div
             className={`mt-4 p-3 rounded-md ${
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from "../functions";
+import { Button } from "@/app/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/app/components/ui/card";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Badge } from "@/app/components/ui/badge";
+
+export function TwoFactorSettings({
+  enabled,
+  recoveryCodesRemaining,
+}: {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState("");
+
+  // Enrollment in progress: the secret to add to an authenticator app
+  const [enrollment, setEnrollment] = useState<{
+    secret: string;
+    otpauthUri: string;
+  } | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Plain recovery codes are only available right after they're generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleStart = async () => {
+    const result = await startTwoFactorEnrollment();
+    if (result.success && result.secret && result.otpauthUri) {
+      setEnrollment({ secret: result.secret, otpauthUri: result.otpauthUri });
+      setResult("");
+    } else {
+      setResult("Failed to start setup: " + result.error);
+    }
+  };
+
+  const handleConfirm = async () => {
+    const result = await confirmTwoFactorEnrollment(code);
+    if (result.success && result.recoveryCodes) {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+    } else {
+      setResult("Failed to enable two-factor authentication: " + result.error);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const result = await regenerateRecoveryCodes(code);
+    if (result.success && result.recoveryCodes) {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+    } else {
+      setResult("Failed to generate recovery codes: " + result.error);
+    }
+  };
+
+  const handleDisable = async () => {
+    const result = await disableTwoFactor(password);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      setResult("Failed to disable two-factor authentication: " + result.error);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {(enabled || recoveryCodes) && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in with your
+          password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Save these recovery codes somewhere safe. Each one can be used
+              once to sign in if you lose your authenticator. They won't be
+              shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted p-4 rounded-md">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <Button onClick={() => window.location.reload()}>
+              I've saved my codes
+            </Button>
+          </div>
+        ) : enrollment ? (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              startTransition(() => void handleConfirm());
+            }}
+          >
+            <p className="text-sm">
+              Open{" "}
+              <a href={enrollment.otpauthUri} className="underline underline-offset-4">
+                this setup link
+              </a>{" "}
+              on the device with your authenticator app, or enter this key
+              manually:
+            </p>
+            <code className="block break-all bg-muted p-3 rounded-md text-sm">
+              {enrollment.secret}
+            </code>
+            <div className="space-y-2">
+              <Label htmlFor="totpCode">Code from your app</Label>
+              <Input
+                id="totpCode"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Verifying..." : "Enable"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEnrollment(null)}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {recoveryCodesRemaining} unused recovery code
+              {recoveryCodesRemaining === 1 ? "" : "s"} left.
+            </p>
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                startTransition(() => void handleRegenerate());
+              }}
+            >
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="regenerateCode">Authenticator code</Label>
+                <Input
+                  id="regenerateCode"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline" disabled={isPending}>
+                New recovery codes
+              </Button>
+            </form>
+            <form
+              className="flex items-end gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                startTransition(() => void handleDisable());
+              }}
+            >
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="disablePassword">Password</Label>
+                <Input
+                  id="disablePassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" variant="destructive" disabled={isPending}>
+                Turn off
+              </Button>
+            </form>
+          </>
+        ) : (
+          <Button
+            onClick={() => startTransition(() => void handleStart())}
+            disabled={isPending}
+          >
+            {isPending ? "Starting..." : "Set up two-factor authentication"}
+          </Button>
+        )}
+
+        {result && (
+          <div className="p-3 rounded-md bg-red-100 text-red-800">{result}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
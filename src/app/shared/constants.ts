@@ -3,15 +3,18 @@ export const CONSTANTS = Object.freeze({
 });
 
 // roles.ts
+// Organization roles; mirrors the OrganizationRole enum in prisma/schema.prisma
 export const ROLES = {
   ADMIN: "ADMIN",
   COACH: "COACH",
   MEMBER: "MEMBER"
-};
+} as const;
 
 // roleHierarchy.ts
-export const roleHierarchy = {
+// The roles each role includes: an admin can do anything a coach can, and a
+// coach anything a member can. Permissions are derived from this.
+export const roleHierarchy: Record<keyof typeof ROLES, (keyof typeof ROLES)[]> = {
   ADMIN: ["ADMIN", "COACH", "MEMBER"],
   COACH: ["COACH", "MEMBER"],
   MEMBER: ["MEMBER"]
-};
\ No newline at end of file
+};
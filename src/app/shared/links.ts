@@ -10,8 +10,26 @@ export const link = defineLinks([
   "/user/logout",
   "/user/forgot-password",
   "/user/reset-password",
+  "/user/verify-email",
+  "/user/confirm-email-change",
+  "/user/revert-email-change",
+  "/user/export",
   "/user/:username/settings",
   "/user/:username/profile",
+  "/invite/:token",
+  "/posts/mine",
+  "/posts/new",
+  "/posts/:postId/edit",
+  "/posts/:postId",
+  "/org",
+  "/org/:organizationId",
+  "/org/:organizationId/members",
+  "/org/:organizationId/admin",
+  "/org/:organizationId/audit",
+  "/superuser/dashboard",
+  "/superuser/organizations/:organizationId",
+  "/superuser/users",
+  "/superuser/audit",
   "/legal/privacy",
   "/legal/terms",
   "/legal/tasks",
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { diffValues, parseAuditJson } from '../diff'
+
+describe('Audit diffs', () => {
+  describe('diffValues', () => {
+    it('should keep only changed fields', () => {
+      expect(
+        diffValues(
+          { name: 'KNS', description: 'Old', memberCount: 4 },
+          { name: 'KNS', description: 'New', memberCount: 4 }
+        )
+      ).toEqual({ before: { description: 'Old' }, after: { description: 'New' } })
+    })
+
+    it('should record fields added or cleared', () => {
+      expect(diffValues({ description: 'Old' }, { description: null, location: 'Oslo' })).toEqual({
+        before: { description: 'Old', location: null },
+        after: { description: null, location: 'Oslo' },
+      })
+    })
+
+    it('should keep the whole record for creations and deletions', () => {
+      expect(diffValues(null, { role: 'MEMBER' })).toEqual({ before: null, after: { role: 'MEMBER' } })
+      expect(diffValues({ role: 'ADMIN' }, undefined)).toEqual({ before: { role: 'ADMIN' }, after: null })
+    })
+
+    it('should compare and store dates as ISO strings', () => {
+      const date = new Date('2025-01-01T00:00:00.000Z')
+
+      expect(diffValues({ disabledAt: date }, { disabledAt: new Date(date) })).toEqual({ before: {}, after: {} })
+      expect(diffValues({ disabledAt: null }, { disabledAt: date })).toEqual({
+        before: { disabledAt: null },
+        after: { disabledAt: '2025-01-01T00:00:00.000Z' },
+      })
+    })
+  })
+
+  describe('parseAuditJson', () => {
+    it('should parse stored objects', () => {
+      expect(parseAuditJson('{"role":"COACH"}')).toEqual({ role: 'COACH' })
+    })
+
+    it('should tolerate empty or malformed values', () => {
+      expect(parseAuditJson(null)).toBeNull()
+      expect(parseAuditJson('not json')).toEqual({ value: 'not json' })
+    })
+  })
+})
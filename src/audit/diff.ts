@@ -0,0 +1,46 @@
+export type AuditValues = Record<string, unknown>;
+
+function serialize(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Reduce before/after snapshots to the fields that actually changed, so the
+// log shows what an action did rather than the whole record. Creations and
+// deletions pass only one side and keep all of its fields.
+export function diffValues(
+  before: AuditValues | null | undefined,
+  after: AuditValues | null | undefined
+): { before: AuditValues | null; after: AuditValues | null } {
+  if (!before || !after) {
+    const only = (values: AuditValues | null | undefined) =>
+      values
+        ? Object.fromEntries(Object.entries(values).map(([key, value]) => [key, serialize(value)]))
+        : null;
+    return { before: only(before), after: only(after) };
+  }
+
+  const changedBefore: AuditValues = {};
+  const changedAfter: AuditValues = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const previous = serialize(before[key]) ?? null;
+    const next = serialize(after[key]) ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changedBefore[key] = previous;
+      changedAfter[key] = next;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+// Parse a stored JSON column, tolerating anything unexpected
+export function parseAuditJson(value: string | null): AuditValues | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : { value: parsed };
+  } catch {
+    return { value };
+  }
+}
@@ -0,0 +1,57 @@
+import { requestInfo } from "rwsdk/worker";
+import { db } from "@/db";
+import { getClientIp } from "@/app/lib/device";
+import { diffValues, type AuditValues } from "./diff";
+
+export type AuditEvent = {
+  // Defaults to the signed-in user
+  actorId?: string | null;
+  action: string;
+  targetType?: string;
+  targetId?: string;
+  organizationId?: string;
+  // Snapshots of the target; only changed fields are stored
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+  metadata?: Record<string, unknown>;
+  // Defaults to the request being handled
+  request?: Request;
+};
+
+function toJson(value: AuditValues | null) {
+  return value ? JSON.stringify(value) : null;
+}
+
+// Record a privileged action. Auditing must never break the action itself,
+// so failures are logged rather than thrown.
+export async function recordAudit({
+  actorId,
+  action,
+  targetType,
+  targetId,
+  organizationId,
+  before,
+  after,
+  metadata,
+  request = requestInfo.request,
+}: AuditEvent) {
+  try {
+    const changes = diffValues(before, after);
+
+    await db.auditLog.create({
+      data: {
+        actorId: actorId === undefined ? requestInfo.ctx?.user?.id ?? null : actorId,
+        action,
+        targetType,
+        targetId,
+        organizationId,
+        before: toJson(changes.before),
+        after: toJson(changes.after),
+        metadata: metadata ? JSON.stringify(metadata) : null,
+        ipAddress: request ? getClientIp(request) : null,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record audit event:", action, error);
+  }
+}
@@ -0,0 +1,131 @@
+import { db } from "@/db";
+import { parseAuditJson, type AuditValues } from "./diff";
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export type AuditLogFilters = {
+  // Prefix match, so "membership." finds every membership action
+  action?: string;
+  actor?: string;
+  targetId?: string;
+  organizationId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export type AuditLogEntry = {
+  id: string;
+  action: string;
+  actorName: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  targetName: string | null;
+  organizationId: string | null;
+  organizationName: string | null;
+  before: AuditValues | null;
+  after: AuditValues | null;
+  metadata: AuditValues | null;
+  ipAddress: string | null;
+  createdAt: Date;
+};
+
+function parseDate(value: string | null, endOfDay = false) {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Filters from a viewer's query string; unknown or malformed values are ignored
+export function parseAuditLogFilters(url: URL): AuditLogFilters & { page: number } {
+  const get = (name: string) => url.searchParams.get(name)?.trim() || undefined;
+
+  return {
+    action: get("action"),
+    actor: get("actor"),
+    targetId: get("target"),
+    organizationId: get("organization"),
+    from: parseDate(url.searchParams.get("from")),
+    to: parseDate(url.searchParams.get("to"), true),
+    page: Math.max(1, Number.parseInt(url.searchParams.get("page") ?? "1", 10) || 1),
+  };
+}
+
+export async function listAuditLogs(filters: AuditLogFilters, page = 1) {
+  let actorId: string | undefined;
+  if (filters.actor) {
+    const actor = await db.user.findUnique({
+      where: { username: filters.actor.toLowerCase() },
+      select: { id: true },
+    });
+    if (!actor) return { total: 0, entries: [] as AuditLogEntry[] };
+    actorId = actor.id;
+  }
+
+  const where = {
+    ...(filters.action && { action: { startsWith: filters.action } }),
+    ...(actorId && { actorId }),
+    ...(filters.targetId && { targetId: filters.targetId }),
+    ...(filters.organizationId && { organizationId: filters.organizationId }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      },
+    }),
+  };
+
+  const [total, logs] = await Promise.all([
+    db.auditLog.count({ where }),
+    db.auditLog.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE,
+    }),
+  ]);
+
+  // Actors and targets are stored as plain IDs; resolve names in two queries
+  const userIds = new Set<string>();
+  const organizationIds = new Set<string>();
+  for (const log of logs) {
+    if (log.actorId) userIds.add(log.actorId);
+    if (log.targetType === "User" && log.targetId) userIds.add(log.targetId);
+    if (log.organizationId) organizationIds.add(log.organizationId);
+  }
+
+  const [users, organizations] = await Promise.all([
+    db.user.findMany({
+      where: { id: { in: [...userIds] } },
+      select: { id: true, username: true, deletedAt: true },
+    }),
+    db.organization.findMany({
+      where: { id: { in: [...organizationIds] } },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const usernames = new Map<string, string>(
+    users.map((user) => [user.id, user.deletedAt ? "Deleted user" : user.username])
+  );
+  const organizationNames = new Map<string, string>(
+    organizations.map((organization) => [organization.id, organization.name])
+  );
+
+  const entries: AuditLogEntry[] = logs.map((log) => ({
+    id: log.id,
+    action: log.action,
+    actorName: log.actorId ? usernames.get(log.actorId) ?? null : null,
+    targetType: log.targetType,
+    targetId: log.targetId,
+    targetName: log.targetType === "User" && log.targetId ? usernames.get(log.targetId) ?? null : null,
+    organizationId: log.organizationId,
+    organizationName: log.organizationId ? organizationNames.get(log.organizationId) ?? null : null,
+    before: parseAuditJson(log.before),
+    after: parseAuditJson(log.after),
+    metadata: parseAuditJson(log.metadata),
+    ipAddress: log.ipAddress,
+    createdAt: log.createdAt,
+  }));
+
+  return { total, entries };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { renderEmail, resolveLocale, type TemplateName, type TemplateParams } from '../templates'
+
+const params: TemplateParams = {
+  passwordReset: { username: 'sam', resetLink: 'https://example.com/reset?token=abc' },
+  emailVerification: { username: 'sam', verifyLink: 'https://example.com/verify?token=abc' },
+  emailChangeConfirmation: { username: 'sam', newEmail: 'new@example.com', confirmLink: 'https://example.com/confirm' },
+  emailChangedNotification: { username: 'sam', newEmail: 'new@example.com', revertLink: 'https://example.com/revert' },
+  invitation: {
+    organizationName: 'KNS Juniors',
+    inviterName: 'coach',
+    role: 'COACH',
+    inviteLink: 'https://example.com/invite/abc',
+    expiresAt: new Date(Date.UTC(2025, 5, 1, 10)),
+  },
+  eventReminder: {
+    username: 'sam',
+    eventName: 'Spring Regatta',
+    startsAt: new Date(Date.UTC(2025, 4, 10, 8)),
+    location: 'Dronningen',
+    eventLink: 'https://example.com/events/1',
+  },
+  weeklyDigest: {
+    username: 'sam',
+    posts: [{ title: 'Heavy air tips', author: 'anna', link: 'https://example.com/posts/1' }],
+    feedLink: 'https://example.com/home',
+  },
+}
+
+describe('Email templates', () => {
+  describe('renderEmail', () => {
+    for (const name of Object.keys(params) as TemplateName[]) {
+      it(`should render ${name} in English and Norwegian`, () => {
+        const english = renderEmail(name, params[name] as never, 'en')
+        const norwegian = renderEmail(name, params[name] as never, 'nb')
+
+        expect(english.subject).toBeTruthy()
+        expect(norwegian.subject).toBeTruthy()
+        expect(norwegian.subject).not.toBe(english.subject)
+        expect(english.html).toContain('<html lang="en">')
+        expect(norwegian.html).toContain('<html lang="nb">')
+      })
+    }
+
+    it('should escape interpolated values in the HTML version', () => {
+      const { html } = renderEmail('passwordReset', {
+        username: '<script>alert("x")</script>',
+        resetLink: 'https://example.com/reset?token=a&b="c"',
+      })
+
+      expect(html).not.toContain('<script>')
+      expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;')
+      expect(html).toContain('href="https://example.com/reset?token=a&amp;b=&quot;c&quot;"')
+    })
+
+    it('should produce a plain-text alternative with the link spelled out', () => {
+      const { text } = renderEmail('passwordReset', params.passwordReset, 'en')
+
+      expect(text).toContain('Hello sam,')
+      expect(text).toContain('Reset Password: https://example.com/reset?token=abc')
+      expect(text).not.toMatch(/<[a-z]/i)
+    })
+
+    it('should list digest posts in both versions', () => {
+      const { html, text } = renderEmail('weeklyDigest', params.weeklyDigest, 'en')
+
+      expect(html).toContain('<a href="https://example.com/posts/1">Heavy air tips by anna</a>')
+      expect(text).toContain('- Heavy air tips by anna: https://example.com/posts/1')
+    })
+
+    it('should default to English', () => {
+      expect(renderEmail('passwordReset', params.passwordReset).subject).toBe('Password Reset Request')
+    })
+  })
+
+  describe('resolveLocale', () => {
+    it('should recognise Norwegian language tags', () => {
+      expect(resolveLocale('nb')).toBe('nb')
+      expect(resolveLocale('nb-NO,nb;q=0.9,en;q=0.8')).toBe('nb')
+      expect(resolveLocale('no')).toBe('nb')
+      expect(resolveLocale('nn-NO')).toBe('nb')
+    })
+
+    it('should fall back to English for unknown or missing values', () => {
+      expect(resolveLocale('en-GB')).toBe('en')
+      expect(resolveLocale('de-DE')).toBe('en')
+      expect(resolveLocale(null)).toBe('en')
+      expect(resolveLocale(undefined)).toBe('en')
+    })
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getEmailTransport } from '../transport'
+
+describe('Email transport', () => {
+  describe('getEmailTransport', () => {
+    it('should use the outbox in development even with a Resend key', () => {
+      expect(getEmailTransport({ RESEND_API_KEY: 'key' }, true).name).toBe('outbox')
+    })
+
+    it('should use Resend outside development when a key is configured', () => {
+      expect(getEmailTransport({ RESEND_API_KEY: 'key' }, false).name).toBe('resend')
+    })
+
+    it('should not fall back to the outbox when no Resend key is configured', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const transport = getEmailTransport({}, false)
+
+      expect(transport.name).toBe('resend')
+      await expect(transport.send({ from: 'noreply@example.com', to: 'erik@example.com', subject: 'Reset', html: '' })).resolves.toBe(false)
+      expect(consoleError).toHaveBeenCalledWith('RESEND_API_KEY not configured in environment variables')
+      consoleError.mockRestore()
+    })
+
+    it('should honour an explicit EMAIL_TRANSPORT', () => {
+      expect(getEmailTransport({ EMAIL_TRANSPORT: 'resend', RESEND_API_KEY: 'key' }, true).name).toBe('resend')
+      expect(getEmailTransport({ EMAIL_TRANSPORT: 'outbox', RESEND_API_KEY: 'key' }, false).name).toBe('outbox')
+    })
+
+    it('should ignore unknown EMAIL_TRANSPORT values', () => {
+      expect(getEmailTransport({ EMAIL_TRANSPORT: 'smtp', RESEND_API_KEY: 'key' }, false).name).toBe('resend')
+    })
+  })
+})
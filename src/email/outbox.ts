@@ -0,0 +1,38 @@
+import { db } from "@/db";
+import type { EmailTransport } from "./transport";
+
+// Stores emails in D1 instead of sending them, so flows like password reset
+// can be followed end-to-end locally via /dev/outbox
+export function createOutboxTransport(): EmailTransport {
+  return {
+    name: "outbox",
+    async send({ from, to, subject, html, text }) {
+      try {
+        const email = await db.outboxEmail.create({
+          data: { from, to, subject, html, text },
+        });
+        console.log(`Email to ${to} captured in outbox:`, email.id);
+        return true;
+      } catch (error) {
+        console.error("Failed to store email in outbox:", error);
+        return false;
+      }
+    },
+  };
+}
+
+export async function listOutboxEmails(limit = 50) {
+  return db.outboxEmail.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: { id: true, to: true, subject: true, createdAt: true },
+  });
+}
+
+export async function getOutboxEmail(id: string) {
+  return db.outboxEmail.findUnique({ where: { id } });
+}
+
+export async function clearOutbox() {
+  await db.outboxEmail.deleteMany({});
+}
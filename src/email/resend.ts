@@ -0,0 +1,38 @@
+import { Resend } from "resend";
+import type { EmailTransport } from "./transport";
+
+export function createResendTransport(apiKey: string | undefined): EmailTransport {
+  return {
+    name: "resend",
+    async send({ from, to, subject, html, text }) {
+      // Check if Resend API key is configured
+      if (!apiKey) {
+        console.error("RESEND_API_KEY not configured in environment variables");
+        return false;
+      }
+
+      const resend = new Resend(apiKey);
+
+      try {
+        const { data, error } = await resend.emails.send({
+          from,
+          to: [to],
+          subject,
+          html,
+          ...(text && { text }),
+        });
+
+        if (error) {
+          console.error("Resend error:", error);
+          return false;
+        }
+
+        console.log("Email sent successfully:", data?.id);
+        return true;
+      } catch (error) {
+        console.error("Failed to send email:", error);
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import type { LocaleTemplates } from "./types";
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-GB", {
+    dateStyle: "full",
+    timeStyle: "short",
+    timeZone: "Europe/Oslo",
+  }).format(date);
+
+const ROLE_NAMES: Record<string, string> = {
+  ADMIN: "an admin",
+  COACH: "a coach",
+  MEMBER: "a member",
+};
+
+export const en: LocaleTemplates = {
+  layout: {
+    copyLink: "Or copy and paste this link into your browser:",
+    signOff: "Best regards,",
+    team: "The ILCA KNS Team",
+  },
+  templates: {
+    passwordReset: ({ username, resetLink }) => ({
+      subject: "Password Reset Request",
+      heading: "Password Reset Request",
+      greeting: `Hello ${username},`,
+      paragraphs: [
+        "You requested a password reset for your ILCA KNS account. Click the button below to reset your password:",
+      ],
+      action: { label: "Reset Password", url: resetLink },
+      notes: [
+        "This link will expire in 1 hour.",
+        "If you didn't request this password reset, please ignore this email. Your password will remain unchanged.",
+      ],
+    }),
+
+    emailVerification: ({ username, verifyLink }) => ({
+      subject: "Verify your email address",
+      heading: "Verify Your Email",
+      greeting: `Hello ${username},`,
+      paragraphs: [
+        "Please confirm that this is your email address for your ILCA KNS account. Click the button below to verify it:",
+      ],
+      action: { label: "Verify Email", url: verifyLink },
+      notes: [
+        "This link will expire in 24 hours.",
+        "If you didn't create an account, you can safely ignore this email.",
+      ],
+    }),
+
+    emailChangeConfirmation: ({ username, newEmail, confirmLink }) => ({
+      subject: "Confirm your new email address",
+      heading: "Confirm Your New Email",
+      greeting: `Hello ${username},`,
+      paragraphs: [
+        `You asked to change the email address on your ILCA KNS account to ${newEmail}. Click the button below to confirm:`,
+      ],
+      action: { label: "Confirm Email Change", url: confirmLink },
+      notes: [
+        "This link will expire in 24 hours.",
+        "If you didn't request this change, please ignore this email. Your account will remain unchanged.",
+      ],
+    }),
+
+    emailChangedNotification: ({ username, newEmail, revertLink }) => ({
+      subject: "Your email address was changed",
+      heading: "Your Email Address Was Changed",
+      greeting: `Hello ${username},`,
+      paragraphs: [
+        `The email address on your ILCA KNS account was changed to ${newEmail}.`,
+        "If you made this change, you don't need to do anything. If you didn't, click the button below to restore this address and sign out all devices:",
+      ],
+      action: { label: "This Wasn't Me", url: revertLink, tone: "danger" },
+      notes: ["This link will expire in 7 days."],
+    }),
+
+    invitation: ({ organizationName, inviterName, role, inviteLink, expiresAt }) => ({
+      subject: `You're invited to join ${organizationName}`,
+      heading: `Join ${organizationName}`,
+      greeting: "Hello,",
+      paragraphs: [
+        `${inviterName} has invited you to join ${organizationName} on ILCA KNS as ${ROLE_NAMES[role] ?? role.toLowerCase()}.`,
+        "Click the button below to accept. If you don't have an account yet, you can create one first.",
+      ],
+      action: { label: "View Invitation", url: inviteLink },
+      notes: [
+        `This invitation expires on ${formatDate(expiresAt)}.`,
+        "If you weren't expecting this invitation, you can ignore this email.",
+      ],
+    }),
+
+    eventReminder: ({ username, eventName, startsAt, location, eventLink }) => ({
+      subject: `Reminder: ${eventName}`,
+      heading: eventName,
+      greeting: `Hello ${username},`,
+      paragraphs: [
+        `This is a reminder that ${eventName} starts ${formatDate(startsAt)}.`,
+        ...(location ? [`Location: ${location}`] : []),
+      ],
+      action: { label: "View Event", url: eventLink },
+      notes: ["See you on the water!"],
+    }),
+
+    weeklyDigest: ({ username, posts, feedLink }) => ({
+      subject: "Your weekly ILCA KNS digest",
+      heading: "This Week on ILCA KNS",
+      greeting: `Hello ${username},`,
+      paragraphs: [
+        posts.length > 0
+          ? "Here's what was posted this week:"
+          : "It's been a quiet week. Why not share something with the fleet?",
+      ],
+      items: posts.map((post) => ({
+        text: `${post.title} by ${post.author}`,
+        url: post.link,
+      })),
+      action: { label: "Open Feed", url: feedLink },
+      notes: ["You can change your email preferences in your account settings."],
+    }),
+  },
+};
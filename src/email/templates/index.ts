@@ -0,0 +1,35 @@
+import { en } from "./en";
+import { nb } from "./nb";
+import { renderHtml, renderText } from "./layout";
+import type { Locale, LocaleTemplates, TemplateName, TemplateParams } from "./types";
+
+export type { Locale, TemplateName, TemplateParams } from "./types";
+
+export const SUPPORTED_LOCALES: Locale[] = ["en", "nb"];
+export const DEFAULT_LOCALE: Locale = "en";
+
+const REGISTRY: Record<Locale, LocaleTemplates> = { en, nb };
+
+// Map a stored preference (or nothing) to a locale we have templates for.
+// Accepts region tags and the common "no"/"nn" codes for Norwegian.
+export function resolveLocale(value: string | null | undefined): Locale {
+  const language = value?.toLowerCase().split(/[-_]/)[0];
+  if (language === "nb" || language === "no" || language === "nn") return "nb";
+  if (language === "en") return "en";
+  return DEFAULT_LOCALE;
+}
+
+export function renderEmail<Name extends TemplateName>(
+  name: Name,
+  params: TemplateParams[Name],
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const { layout, templates } = REGISTRY[locale];
+  const content = templates[name](params);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content, layout, locale),
+    text: renderText(content, layout),
+  };
+}
@@ -0,0 +1,83 @@
+import { escapeHtml } from "../html";
+import type { EmailContent, LayoutStrings } from "./types";
+
+const BUTTON_COLORS = {
+  primary: "#2563eb",
+  danger: "#dc2626",
+};
+
+// The house style every transactional email shares. All template values are
+// escaped here, including usernames and other user-supplied text.
+export function renderHtml(content: EmailContent, strings: LayoutStrings, lang: string): string {
+  const paragraphs = content.paragraphs
+    .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+    .join("\n          ");
+
+  const items = content.items?.length
+    ? `<ul>
+            ${content.items
+              .map((item) =>
+                item.url
+                  ? `<li><a href="${escapeHtml(item.url)}">${escapeHtml(item.text)}</a></li>`
+                  : `<li>${escapeHtml(item.text)}</li>`
+              )
+              .join("\n            ")}
+          </ul>`
+    : "";
+
+  const action = content.action
+    ? `<div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(content.action.url)}"
+               style="background-color: ${BUTTON_COLORS[content.action.tone ?? "primary"]}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${escapeHtml(content.action.label)}
+            </a>
+          </div>
+
+          <p>${escapeHtml(strings.copyLink)}</p>
+          <p style="word-break: break-all; background-color: #f3f4f6; padding: 10px; border-radius: 4px;">
+            <a href="${escapeHtml(content.action.url)}">${escapeHtml(content.action.url)}</a>
+          </p>`
+    : "";
+
+  const notes = (content.notes ?? [])
+    .map((note) => `<p>${escapeHtml(note)}</p>`)
+    .join("\n          ");
+
+  return `
+    <html lang="${escapeHtml(lang)}">
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h1 style="color: #2563eb;">${escapeHtml(content.heading)}</h1>
+          <p>${escapeHtml(content.greeting)}</p>
+          ${paragraphs}
+          ${items}
+          ${action}
+          ${notes}
+
+          <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+          <p style="font-size: 14px; color: #6b7280;">
+            ${escapeHtml(strings.signOff)}<br>
+            ${escapeHtml(strings.team)}
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+// Plain-text alternative for clients that don't render HTML
+export function renderText(content: EmailContent, strings: LayoutStrings): string {
+  const blocks = [
+    content.heading,
+    content.greeting,
+    ...content.paragraphs,
+    ...(content.items?.length
+      ? [content.items.map((item) => (item.url ? `- ${item.text}: ${item.url}` : `- ${item.text}`)).join("\n")]
+      : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...(content.notes ?? []),
+    `${strings.signOff}\n${strings.team}`,
+  ];
+
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,121 @@
+import type { LocaleTemplates } from "./types";
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("nb-NO", {
+    dateStyle: "full",
+    timeStyle: "short",
+    timeZone: "Europe/Oslo",
+  }).format(date);
+
+const ROLE_NAMES: Record<string, string> = {
+  ADMIN: "administrator",
+  COACH: "trener",
+  MEMBER: "medlem",
+};
+
+export const nb: LocaleTemplates = {
+  layout: {
+    copyLink: "Eller kopier og lim inn denne lenken i nettleseren:",
+    signOff: "Vennlig hilsen",
+    team: "ILCA KNS",
+  },
+  templates: {
+    passwordReset: ({ username, resetLink }) => ({
+      subject: "Tilbakestill passord",
+      heading: "Tilbakestill passord",
+      greeting: `Hei ${username},`,
+      paragraphs: [
+        "Du har bedt om å tilbakestille passordet til ILCA KNS-kontoen din. Klikk på knappen under for å velge et nytt passord:",
+      ],
+      action: { label: "Tilbakestill passord", url: resetLink },
+      notes: [
+        "Lenken utløper om 1 time.",
+        "Hvis du ikke ba om dette, kan du se bort fra denne e-posten. Passordet ditt forblir uendret.",
+      ],
+    }),
+
+    emailVerification: ({ username, verifyLink }) => ({
+      subject: "Bekreft e-postadressen din",
+      heading: "Bekreft e-postadressen din",
+      greeting: `Hei ${username},`,
+      paragraphs: [
+        "Bekreft at dette er e-postadressen til ILCA KNS-kontoen din ved å klikke på knappen under:",
+      ],
+      action: { label: "Bekreft e-post", url: verifyLink },
+      notes: [
+        "Lenken utløper om 24 timer.",
+        "Hvis du ikke har opprettet en konto, kan du trygt se bort fra denne e-posten.",
+      ],
+    }),
+
+    emailChangeConfirmation: ({ username, newEmail, confirmLink }) => ({
+      subject: "Bekreft den nye e-postadressen din",
+      heading: "Bekreft ny e-postadresse",
+      greeting: `Hei ${username},`,
+      paragraphs: [
+        `Du har bedt om å endre e-postadressen på ILCA KNS-kontoen din til ${newEmail}. Klikk på knappen under for å bekrefte:`,
+      ],
+      action: { label: "Bekreft endring", url: confirmLink },
+      notes: [
+        "Lenken utløper om 24 timer.",
+        "Hvis du ikke ba om denne endringen, kan du se bort fra denne e-posten. Kontoen din forblir uendret.",
+      ],
+    }),
+
+    emailChangedNotification: ({ username, newEmail, revertLink }) => ({
+      subject: "E-postadressen din er endret",
+      heading: "E-postadressen din er endret",
+      greeting: `Hei ${username},`,
+      paragraphs: [
+        `E-postadressen på ILCA KNS-kontoen din er endret til ${newEmail}.`,
+        "Hvis det var du, trenger du ikke gjøre noe. Hvis ikke, klikk på knappen under for å gjenopprette denne adressen og logge ut alle enheter:",
+      ],
+      action: { label: "Det var ikke meg", url: revertLink, tone: "danger" },
+      notes: ["Lenken utløper om 7 dager."],
+    }),
+
+    invitation: ({ organizationName, inviterName, role, inviteLink, expiresAt }) => ({
+      subject: `Du er invitert til ${organizationName}`,
+      heading: `Bli med i ${organizationName}`,
+      greeting: "Hei,",
+      paragraphs: [
+        `${inviterName} har invitert deg til ${organizationName} på ILCA KNS som ${ROLE_NAMES[role] ?? role.toLowerCase()}.`,
+        "Klikk på knappen under for å takke ja. Har du ikke konto ennå, kan du opprette en først.",
+      ],
+      action: { label: "Se invitasjonen", url: inviteLink },
+      notes: [
+        `Invitasjonen utløper ${formatDate(expiresAt)}.`,
+        "Hvis du ikke ventet denne invitasjonen, kan du se bort fra e-posten.",
+      ],
+    }),
+
+    eventReminder: ({ username, eventName, startsAt, location, eventLink }) => ({
+      subject: `Påminnelse: ${eventName}`,
+      heading: eventName,
+      greeting: `Hei ${username},`,
+      paragraphs: [
+        `Dette er en påminnelse om at ${eventName} starter ${formatDate(startsAt)}.`,
+        ...(location ? [`Sted: ${location}`] : []),
+      ],
+      action: { label: "Se arrangementet", url: eventLink },
+      notes: ["Vi sees på vannet!"],
+    }),
+
+    weeklyDigest: ({ username, posts, feedLink }) => ({
+      subject: "Ukens oppsummering fra ILCA KNS",
+      heading: "Denne uken på ILCA KNS",
+      greeting: `Hei ${username},`,
+      paragraphs: [
+        posts.length > 0
+          ? "Dette ble delt denne uken:"
+          : "Det har vært en rolig uke. Hva med å dele noe med flåten?",
+      ],
+      items: posts.map((post) => ({
+        text: `${post.title} av ${post.author}`,
+        url: post.link,
+      })),
+      action: { label: "Åpne feeden", url: feedLink },
+      notes: ["Du kan endre e-postinnstillingene dine under kontoinnstillinger."],
+    }),
+  },
+};
@@ -0,0 +1,57 @@
+export type Locale = "en" | "nb";
+
+// What a template produces: plain strings only. The layout escapes them and
+// renders both the HTML and the plain-text version, so templates never
+// build markup themselves.
+export type EmailContent = {
+  subject: string;
+  heading: string;
+  greeting: string;
+  paragraphs: string[];
+  items?: { text: string; url?: string }[];
+  action?: { label: string; url: string; tone?: "primary" | "danger" };
+  notes?: string[];
+};
+
+// Parameters each template needs
+export type TemplateParams = {
+  passwordReset: { username: string; resetLink: string };
+  emailVerification: { username: string; verifyLink: string };
+  emailChangeConfirmation: { username: string; newEmail: string; confirmLink: string };
+  emailChangedNotification: { username: string; newEmail: string; revertLink: string };
+  invitation: {
+    organizationName: string;
+    inviterName: string;
+    role: string;
+    inviteLink: string;
+    expiresAt: Date;
+  };
+  eventReminder: {
+    username: string;
+    eventName: string;
+    startsAt: Date;
+    location?: string;
+    eventLink: string;
+  };
+  weeklyDigest: {
+    username: string;
+    posts: { title: string; author: string; link: string }[];
+    feedLink: string;
+  };
+};
+
+export type TemplateName = keyof TemplateParams;
+
+// Shared wording used by the layout around every template
+export type LayoutStrings = {
+  copyLink: string;
+  signOff: string;
+  team: string;
+};
+
+export type LocaleTemplates = {
+  layout: LayoutStrings;
+  templates: {
+    [Name in TemplateName]: (params: TemplateParams[Name]) => EmailContent;
+  };
+};
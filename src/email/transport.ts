@@ -0,0 +1,39 @@
+import { IS_DEV } from "rwsdk/constants";
+import { createResendTransport } from "./resend";
+import { createOutboxTransport } from "./outbox";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+};
+
+// Something that can deliver an email; returns false rather than throwing
+export interface EmailTransport {
+  name: "resend" | "outbox";
+  send(message: EmailMessage & { from: string }): Promise<boolean>;
+}
+
+type EmailEnv = {
+  EMAIL_TRANSPORT?: string;
+  RESEND_API_KEY?: string;
+};
+
+// EMAIL_TRANSPORT picks explicitly. Otherwise local development captures
+// mail in the outbox and everything else sends through Resend. A deployment
+// missing its Resend key must not quietly park password resets in the
+// outbox, so it gets Resend and every send fails with a logged error.
+export function getEmailTransport(env: EmailEnv, isDev: boolean = IS_DEV): EmailTransport {
+  const name =
+    env.EMAIL_TRANSPORT === "resend" || env.EMAIL_TRANSPORT === "outbox"
+      ? env.EMAIL_TRANSPORT
+      : isDev
+        ? "outbox"
+        : "resend";
+
+  if (name === "resend") {
+    return createResendTransport(env.RESEND_API_KEY);
+  }
+  return createOutboxTransport();
+}
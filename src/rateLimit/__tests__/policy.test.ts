@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { applyAttempt, type RateLimitPolicy, type RateLimitState } from '../policy'
+
+const policy: RateLimitPolicy = {
+  limit: 3,
+  windowMs: 60_000,
+  lockoutMs: 1_000,
+  maxLockoutMs: 8_000,
+}
+
+const emptyState: RateLimitState = { attempts: [], lockedUntil: 0, lockouts: 0 }
+
+// Apply `count` attempts one millisecond apart starting at `start`
+function attempts(state: RateLimitState, count: number, start: number) {
+  let current = state
+  let status
+  for (let i = 0; i < count; i++) {
+    ;({ state: current, status } = applyAttempt(current, policy, start + i))
+  }
+  return { state: current, status: status! }
+}
+
+describe('Rate limiting', () => {
+  it('should allow attempts up to the limit', () => {
+    const { state, status } = attempts(emptyState, 3, 1_000)
+
+    expect(status).toEqual({ allowed: true, remaining: 0 })
+    expect(state.attempts).toHaveLength(3)
+    expect(state.lockedUntil).toBe(0)
+  })
+
+  it('should lock out once the limit is exceeded', () => {
+    const { state, status } = attempts(emptyState, 4, 1_000)
+
+    expect(status).toEqual({ allowed: false, retryAfterMs: 1_000 })
+    expect(state.lockedUntil).toBe(1_003 + 1_000)
+    expect(state.lockouts).toBe(1)
+  })
+
+  it('should refuse attempts during a lockout without counting them', () => {
+    const locked = attempts(emptyState, 4, 1_000).state
+    const { state, status } = applyAttempt(locked, policy, 1_500)
+
+    expect(status).toEqual({ allowed: false, retryAfterMs: locked.lockedUntil - 1_500 })
+    expect(state).toBe(locked)
+  })
+
+  it('should slide the window so old attempts stop counting', () => {
+    const { state } = attempts(emptyState, 3, 1_000)
+    const { status } = applyAttempt(state, policy, 1_000 + policy.windowMs + 10)
+
+    expect(status).toEqual({ allowed: true, remaining: 2 })
+  })
+
+  it('should double the lockout for consecutive lockouts up to the maximum', () => {
+    let state = emptyState
+    let now = 0
+    const lockouts: number[] = []
+
+    for (let i = 0; i < 5; i++) {
+      const result = attempts(state, 4, now)
+      state = result.state
+      if (!result.status.allowed) lockouts.push(result.status.retryAfterMs)
+      now = state.lockedUntil
+    }
+
+    expect(lockouts).toEqual([1_000, 2_000, 4_000, 8_000, 8_000])
+  })
+
+  it('should forget earlier lockouts after a quiet period', () => {
+    const locked = attempts(emptyState, 4, 0).state
+    const later = locked.lockedUntil + policy.maxLockoutMs + 1
+    const { status } = attempts(locked, 4, later)
+
+    expect(status).toEqual({ allowed: false, retryAfterMs: 1_000 })
+  })
+})
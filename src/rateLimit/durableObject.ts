@@ -0,0 +1,72 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  applyAttempt,
+  EMPTY_STATE,
+  type RateLimitPolicy,
+  type RateLimitState,
+  type RateLimitStatus,
+} from "./policy";
+
+export type { RateLimitPolicy, RateLimitState, RateLimitStatus };
+
+// One instance per rate limit key (e.g. "loginIp:203.0.113.7")
+export class RateLimitDurableObject extends DurableObject {
+  private state: RateLimitState | undefined = undefined;
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.state = undefined;
+  }
+
+  private async load(): Promise<RateLimitState> {
+    if (!this.state) {
+      this.state =
+        (await this.ctx.storage.get<RateLimitState>("state")) ?? EMPTY_STATE;
+    }
+    return this.state;
+  }
+
+  private async save(state: RateLimitState, policy: RateLimitPolicy) {
+    await this.ctx.storage.put<RateLimitState>("state", state);
+    this.state = state;
+
+    // Clean up once nothing in storage can affect a future decision
+    const lastAttempt = state.attempts[state.attempts.length - 1] ?? 0;
+    await this.ctx.storage.setAlarm(
+      Math.max(state.lockedUntil, lastAttempt + policy.windowMs) +
+        policy.maxLockoutMs
+    );
+  }
+
+  // Check whether the key is currently locked out, without counting an attempt
+  async check(): Promise<RateLimitStatus> {
+    const state = await this.load();
+    const now = Date.now();
+
+    if (state.lockedUntil > now) {
+      return { allowed: false, retryAfterMs: state.lockedUntil - now };
+    }
+
+    return { allowed: true, remaining: Infinity };
+  }
+
+  // Count an attempt and lock the key out if it exceeds the policy
+  async hit(policy: RateLimitPolicy): Promise<RateLimitStatus> {
+    const current = await this.load();
+    const { state, status } = applyAttempt(current, policy, Date.now());
+
+    if (state !== current) {
+      await this.save(state, policy);
+    }
+
+    return status;
+  }
+
+  async reset() {
+    await this.ctx.storage.deleteAll();
+    this.state = undefined;
+  }
+
+  async alarm() {
+    await this.reset();
+  }
+}
@@ -0,0 +1,92 @@
+import { env } from "cloudflare:workers";
+import type { RateLimitPolicy, RateLimitStatus } from "./policy";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const RATE_LIMITS = {
+  // Failed password logins
+  loginIp: { limit: 20, windowMs: 15 * MINUTE, lockoutMs: MINUTE, maxLockoutMs: HOUR },
+  loginAccount: { limit: 5, windowMs: 15 * MINUTE, lockoutMs: MINUTE, maxLockoutMs: HOUR },
+  // Password reset requests, successful or not
+  passwordResetIp: { limit: 10, windowMs: HOUR, lockoutMs: 15 * MINUTE, maxLockoutMs: 24 * HOUR },
+  passwordResetAccount: { limit: 3, windowMs: HOUR, lockoutMs: 15 * MINUTE, maxLockoutMs: 24 * HOUR },
+  // Verification email resends
+  emailVerification: { limit: 3, windowMs: HOUR, lockoutMs: 15 * MINUTE, maxLockoutMs: 24 * HOUR },
+  // Wrong second-factor codes at login, per user
+  twoFactor: { limit: 5, windowMs: 15 * MINUTE, lockoutMs: MINUTE, maxLockoutMs: HOUR },
+  // Email change requests, per user
+  emailChange: { limit: 3, windowMs: HOUR, lockoutMs: 15 * MINUTE, maxLockoutMs: 24 * HOUR },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+export type RateLimitKey = [name: RateLimitName, identifier: string];
+
+// Returned from server functions so pages can show why a request was refused
+export type RateLimitedResult = {
+  error: "RATE_LIMITED";
+  message: string;
+  retryAfterSeconds: number;
+};
+
+function getLimiter([name, identifier]: RateLimitKey) {
+  const id = env.RATE_LIMIT_DURABLE_OBJECT.idFromName(
+    `${name}:${identifier.trim().toLowerCase()}`
+  );
+  return env.RATE_LIMIT_DURABLE_OBJECT.get(id);
+}
+
+function toRateLimitedResult(
+  statuses: RateLimitStatus[]
+): RateLimitedResult | null {
+  const retryAfterMs = Math.max(
+    0,
+    ...statuses.map((status) => (status.allowed ? 0 : status.retryAfterMs))
+  );
+
+  if (retryAfterMs === 0) return null;
+
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+
+  return {
+    error: "RATE_LIMITED",
+    message: `Too many attempts. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    retryAfterSeconds,
+  };
+}
+
+// Rate limiting should never take the login flow down with it, so a broken
+// limiter lets requests through and logs instead of throwing.
+
+// Returns a result if any key is currently locked out, without counting
+export async function checkRateLimits(keys: RateLimitKey[]) {
+  try {
+    const statuses = await Promise.all(keys.map((key) => getLimiter(key).check()));
+    return toRateLimitedResult(statuses);
+  } catch (error) {
+    console.error("Rate limit check failed:", error);
+    return null;
+  }
+}
+
+// Counts an attempt against every key; returns a result if any is now locked out
+export async function hitRateLimits(keys: RateLimitKey[]) {
+  try {
+    const statuses = await Promise.all(
+      keys.map((key) => getLimiter(key).hit(RATE_LIMITS[key[0]]))
+    );
+    return toRateLimitedResult(statuses);
+  } catch (error) {
+    console.error("Rate limit update failed:", error);
+    return null;
+  }
+}
+
+export async function resetRateLimits(keys: RateLimitKey[]) {
+  try {
+    await Promise.all(keys.map((key) => getLimiter(key).reset()));
+  } catch (error) {
+    console.error("Rate limit reset failed:", error);
+  }
+}
@@ -0,0 +1,66 @@
+export interface RateLimitPolicy {
+  // Attempts allowed inside the sliding window before locking out
+  limit: number;
+  windowMs: number;
+  // First lockout duration; doubles with each consecutive lockout
+  lockoutMs: number;
+  maxLockoutMs: number;
+}
+
+export interface RateLimitState {
+  attempts: number[];
+  lockedUntil: number;
+  lockouts: number;
+}
+
+export type RateLimitStatus =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterMs: number };
+
+export const EMPTY_STATE: RateLimitState = {
+  attempts: [],
+  lockedUntil: 0,
+  lockouts: 0,
+};
+
+// Pure state transition for a single attempt, kept separate from storage so
+// the window and backoff rules are easy to reason about.
+export function applyAttempt(
+  state: RateLimitState,
+  policy: RateLimitPolicy,
+  now: number
+): { state: RateLimitState; status: RateLimitStatus } {
+  if (state.lockedUntil > now) {
+    return {
+      state,
+      status: { allowed: false, retryAfterMs: state.lockedUntil - now },
+    };
+  }
+
+  // Forget earlier lockouts once the account has been quiet for a while
+  const lockouts =
+    state.lockedUntil && now - state.lockedUntil > policy.maxLockoutMs
+      ? 0
+      : state.lockouts;
+
+  const attempts = [
+    ...state.attempts.filter((timestamp) => timestamp > now - policy.windowMs),
+    now,
+  ];
+
+  if (attempts.length > policy.limit) {
+    const lockoutMs = Math.min(
+      policy.lockoutMs * 2 ** lockouts,
+      policy.maxLockoutMs
+    );
+    return {
+      state: { attempts: [], lockedUntil: now + lockoutMs, lockouts: lockouts + 1 },
+      status: { allowed: false, retryAfterMs: lockoutMs },
+    };
+  }
+
+  return {
+    state: { ...state, attempts, lockouts },
+    status: { allowed: true, remaining: policy.limit - attempts.length },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SESSION_LIMITS,
+  SESSION_RENEWAL_INTERVAL,
+  getSessionExpiry,
+  getSessionLimits,
+  shouldRenewSession,
+} from '../expiry'
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+const limits = { idleTimeoutMs: 2 * DAY, maxLifetimeMs: 10 * DAY }
+const createdAt = Date.UTC(2025, 0, 1)
+
+describe('Session expiry', () => {
+  describe('getSessionExpiry', () => {
+    it('should keep a recently active session alive', () => {
+      const session = { createdAt, lastSeenAt: createdAt + DAY }
+
+      expect(getSessionExpiry(session, limits, createdAt + 2 * DAY)).toBeNull()
+    })
+
+    it('should keep an active session alive past the idle timeout from creation', () => {
+      // Sliding renewal: created 5 days ago but seen an hour ago
+      const session = { createdAt, lastSeenAt: createdAt + 5 * DAY - 60 * MINUTE }
+
+      expect(getSessionExpiry(session, limits, createdAt + 5 * DAY)).toBeNull()
+    })
+
+    it('should time out a session idle for longer than the idle timeout', () => {
+      const session = { createdAt, lastSeenAt: createdAt + DAY }
+
+      expect(getSessionExpiry(session, limits, createdAt + 3 * DAY + 1)).toBe('idle')
+    })
+
+    it('should expire a session past its maximum lifetime even if active', () => {
+      const now = createdAt + 10 * DAY + 1
+      const session = { createdAt, lastSeenAt: now - MINUTE }
+
+      expect(getSessionExpiry(session, limits, now)).toBe('expired')
+    })
+
+    it('should measure idle time from creation for sessions without lastSeenAt', () => {
+      expect(getSessionExpiry({ createdAt }, limits, createdAt + DAY)).toBeNull()
+      expect(getSessionExpiry({ createdAt }, limits, createdAt + 2 * DAY + 1)).toBe('idle')
+    })
+  })
+
+  describe('shouldRenewSession', () => {
+    it('should not renew within the renewal interval', () => {
+      const session = { createdAt, lastSeenAt: createdAt }
+
+      expect(shouldRenewSession(session, createdAt + SESSION_RENEWAL_INTERVAL - 1)).toBe(false)
+    })
+
+    it('should renew once the renewal interval has passed', () => {
+      const session = { createdAt, lastSeenAt: createdAt }
+
+      expect(shouldRenewSession(session, createdAt + SESSION_RENEWAL_INTERVAL)).toBe(true)
+    })
+  })
+
+  describe('getSessionLimits', () => {
+    it('should read limits from environment variables', () => {
+      expect(
+        getSessionLimits({ SESSION_IDLE_TIMEOUT_MINUTES: '30', SESSION_MAX_LIFETIME_DAYS: '7' })
+      ).toEqual({ idleTimeoutMs: 30 * MINUTE, maxLifetimeMs: 7 * DAY })
+    })
+
+    it('should fall back to defaults for missing or invalid values', () => {
+      expect(getSessionLimits({})).toEqual(DEFAULT_SESSION_LIMITS)
+      expect(
+        getSessionLimits({ SESSION_IDLE_TIMEOUT_MINUTES: 'soon', SESSION_MAX_LIFETIME_DAYS: '-1' })
+      ).toEqual(DEFAULT_SESSION_LIMITS)
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  IMPERSONATION_DURATION,
+  getImpersonationExpiresAt,
+  isImpersonating,
+  isImpersonationExpired,
+  isMutatingServerAction,
+} from '../impersonation'
+
+const now = Date.UTC(2025, 0, 1)
+
+describe('Impersonation', () => {
+  it('should only treat sessions with an impersonator as impersonating', () => {
+    expect(isImpersonating({ impersonatorId: 'admin-1' })).toBe(true)
+    expect(isImpersonating({ impersonatorId: null })).toBe(false)
+    expect(isImpersonating(null)).toBe(false)
+  })
+
+  describe('isImpersonationExpired', () => {
+    const session = { impersonatorId: 'admin-1', impersonationExpiresAt: getImpersonationExpiresAt(now) }
+
+    it('should stay active within the time box', () => {
+      expect(isImpersonationExpired(session, now + IMPERSONATION_DURATION - 1)).toBe(false)
+    })
+
+    it('should expire at the end of the time box', () => {
+      expect(isImpersonationExpired(session, now + IMPERSONATION_DURATION)).toBe(true)
+    })
+
+    it('should treat a missing expiry as expired', () => {
+      expect(isImpersonationExpired({ impersonatorId: 'admin-1', impersonationExpiresAt: null }, now)).toBe(true)
+    })
+
+    it('should never expire ordinary sessions', () => {
+      expect(isImpersonationExpired({ impersonatorId: null, impersonationExpiresAt: null }, now)).toBe(false)
+    })
+  })
+
+  describe('isMutatingServerAction', () => {
+    const action = (id: string) => new Request(`https://example.com/home?__rsc_action_id=${encodeURIComponent(id)}`)
+
+    it('should refuse server functions that can write', () => {
+      expect(isMutatingServerAction(action('/src/app/pages/posts/functions.ts#toggleKudos'))).toBe(true)
+      expect(isMutatingServerAction(action('/src/app/pages/user/profile/functions.ts#updateUserProfile'))).toBe(true)
+    })
+
+    it('should let read-only server functions through', () => {
+      expect(isMutatingServerAction(action('/src/app/pages/user/profile/functions.ts#getPublicProfile'))).toBe(false)
+      expect(isMutatingServerAction(action('/src/app/pages/posts/functions.ts#loadMorePosts'))).toBe(false)
+      expect(isMutatingServerAction(action('/src/app/pages/posts/functions.ts#getKudosGivers'))).toBe(false)
+    })
+
+    it('should not match a read-only name from another module', () => {
+      expect(isMutatingServerAction(action('/src/app/pages/posts/other.ts#loadMorePosts'))).toBe(true)
+    })
+
+    it('should ignore ordinary page requests', () => {
+      expect(isMutatingServerAction(new Request('https://example.com/home'))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { saveChallenge, setupSessionStore } from '../store'
+
+vi.unmock('@/session/store')
+
+vi.mock('rwsdk/auth', () => ({
+  defineDurableSession: vi.fn(() => ({ save: vi.fn(), load: vi.fn(), remove: vi.fn() })),
+}))
+
+function makeEnv() {
+  const stub = { setChallenge: vi.fn() }
+  return {
+    stub,
+    env: {
+      SESSION_DURABLE_OBJECT: {
+        idFromString: vi.fn((id: string) => `do:${id}`),
+        get: vi.fn(() => stub),
+      },
+    } as unknown as Env,
+  }
+}
+
+describe('Session store', () => {
+  describe('saveChallenge', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should keep the challenge on an existing session instead of rotating it', async () => {
+      const { env, stub } = makeEnv()
+      const sessions = setupSessionStore(env)
+      const headers = new Headers()
+
+      await saveChallenge(env, { id: 'abc', userId: 'user-1', createdAt: 0 }, headers, 'challenge')
+
+      expect(env.SESSION_DURABLE_OBJECT.idFromString).toHaveBeenCalledWith('abc')
+      expect(stub.setChallenge).toHaveBeenCalledWith('challenge')
+      expect(sessions.save).not.toHaveBeenCalled()
+    })
+
+    it('should start a session for visitors without one', async () => {
+      const { env, stub } = makeEnv()
+      const sessions = setupSessionStore(env)
+      const headers = new Headers()
+
+      await saveChallenge(env, null, headers, 'challenge')
+
+      expect(sessions.save).toHaveBeenCalledWith(headers, { challenge: 'challenge' })
+      expect(stub.setChallenge).not.toHaveBeenCalled()
+    })
+
+    it('should not create a session just to clear a challenge', async () => {
+      const { env } = makeEnv()
+      const sessions = setupSessionStore(env)
+
+      await saveChallenge(env, null, new Headers(), null)
+
+      expect(sessions.save).not.toHaveBeenCalled()
+    })
+  })
+})
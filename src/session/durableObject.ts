@@ -1,30 +1,58 @@
-import { MAX_SESSION_DURATION } from "rwsdk/auth";
 import { DurableObject } from "cloudflare:workers";
+import {
+  getSessionExpiry,
+  getSessionLimits,
+  shouldRenewSession,
+  type SessionLimits,
+} from "./expiry";
 
 export interface Session {
+  // Durable Object ID; used as the key in the per-user session registry
+  id?: string;
   userId?: string | null;
   challenge?: string | null;
+  // Passed the password step but still owes a second factor; not signed in
+  pendingUserId?: string | null;
+  // Set while a SUPERUSER views the site as userId; see ./impersonation
+  impersonatorId?: string | null;
+  impersonationExpiresAt?: number | null;
   createdAt: number;
+  // Last authenticated request; drives the idle timeout
+  lastSeenAt?: number;
 }
 
 export class SessionDurableObject extends DurableObject {
   private session: Session | undefined = undefined;
+  private limits: SessionLimits;
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
     this.session = undefined;
+    this.limits = getSessionLimits(env);
   }
 
   async saveSession({
     userId = null,
     challenge = null,
+    pendingUserId = null,
+    impersonatorId = null,
+    impersonationExpiresAt = null,
   }: {
     userId?: string | null;
     challenge?: string | null;
+    pendingUserId?: string | null;
+    impersonatorId?: string | null;
+    impersonationExpiresAt?: number | null;
   }): Promise<Session> {
+    const now = Date.now();
     const session: Session = {
+      id: this.ctx.id.toString(),
       userId,
       challenge,
-      createdAt: Date.now(),
+      pendingUserId,
+      impersonatorId,
+      impersonationExpiresAt,
+      createdAt: now,
+      lastSeenAt: now,
     };
 
     await this.ctx.storage.put<Session>("session", session);
@@ -33,11 +61,8 @@ export class SessionDurableObject extends DurableObject {
   }
 
   async getSession(): Promise<{ value: Session } | { error: string }> {
-    if (this.session) {
-      return { value: this.session };
-    }
-
-    const session = await this.ctx.storage.get<Session>("session");
+    const session =
+      this.session ?? (await this.ctx.storage.get<Session>("session"));
 
     if (!session) {
       return {
@@ -45,15 +70,41 @@ export class SessionDurableObject extends DurableObject {
       };
     }
 
-    if (session.createdAt + MAX_SESSION_DURATION < Date.now()) {
+    // Check even for the in-memory copy; the object can outlive the session
+    const expiry = getSessionExpiry(session, this.limits, Date.now());
+    if (expiry) {
       await this.revokeSession();
       return {
-        error: "Session expired",
+        error: expiry === "idle" ? "Session timed out" : "Session expired",
       };
     }
 
+    // Sessions saved before the registry existed don't carry their ID
+    this.session = { ...session, id: this.ctx.id.toString() };
+    return { value: this.session };
+  }
+
+  // Slide the idle timeout forward; called on every authenticated request
+  async touchSession(): Promise<void> {
+    const result = await this.getSession();
+    if ("error" in result) return;
+
+    const now = Date.now();
+    if (!shouldRenewSession(result.value, now)) return;
+
+    const session: Session = { ...result.value, lastSeenAt: now };
+    await this.ctx.storage.put<Session>("session", session);
+    this.session = session;
+  }
+
+  // Swap the WebAuthn challenge in place, keeping whoever is signed in
+  async setChallenge(challenge: string | null): Promise<void> {
+    const result = await this.getSession();
+    if ("error" in result) return;
+
+    const session: Session = { ...result.value, challenge };
+    await this.ctx.storage.put<Session>("session", session);
     this.session = session;
-    return { value: session };
   }
 
   async revokeSession() {
@@ -0,0 +1,67 @@
+import type { Session } from "./durableObject";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export interface SessionLimits {
+  // Sign out after this long without an authenticated request
+  idleTimeoutMs: number;
+  // Sign out this long after login, however active the session is
+  maxLifetimeMs: number;
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  idleTimeoutMs: 3 * DAY,
+  maxLifetimeMs: 30 * DAY,
+};
+
+// Don't rewrite storage on every request; a minute of slack is plenty
+export const SESSION_RENEWAL_INTERVAL = MINUTE;
+
+export type SessionExpiry = "idle" | "expired" | null;
+
+function parsePositive(value: string | undefined) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+// Read limits from wrangler vars, falling back to the defaults above
+export function getSessionLimits(env: {
+  SESSION_IDLE_TIMEOUT_MINUTES?: string;
+  SESSION_MAX_LIFETIME_DAYS?: string;
+}): SessionLimits {
+  const idleMinutes = parsePositive(env.SESSION_IDLE_TIMEOUT_MINUTES);
+  const lifetimeDays = parsePositive(env.SESSION_MAX_LIFETIME_DAYS);
+
+  return {
+    idleTimeoutMs: idleMinutes ? idleMinutes * MINUTE : DEFAULT_SESSION_LIMITS.idleTimeoutMs,
+    maxLifetimeMs: lifetimeDays ? lifetimeDays * DAY : DEFAULT_SESSION_LIMITS.maxLifetimeMs,
+  };
+}
+
+export function getSessionExpiry(
+  session: Pick<Session, "createdAt" | "lastSeenAt">,
+  limits: SessionLimits,
+  now: number
+): SessionExpiry {
+  if (session.createdAt + limits.maxLifetimeMs < now) {
+    return "expired";
+  }
+
+  // Sessions saved before lastSeenAt existed count from creation
+  const lastSeenAt = session.lastSeenAt ?? session.createdAt;
+  if (lastSeenAt + limits.idleTimeoutMs < now) {
+    return "idle";
+  }
+
+  return null;
+}
+
+// Whether a request at `now` should push lastSeenAt forward
+export function shouldRenewSession(
+  session: Pick<Session, "createdAt" | "lastSeenAt">,
+  now: number
+) {
+  const lastSeenAt = session.lastSeenAt ?? session.createdAt;
+  return now - lastSeenAt >= SESSION_RENEWAL_INTERVAL;
+}
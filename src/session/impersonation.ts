@@ -0,0 +1,47 @@
+import type { Session } from "./durableObject";
+
+// "View as user" sessions end on their own after this long
+export const IMPERSONATION_DURATION = 30 * 60 * 1000; // 30 minutes
+
+export function getImpersonationExpiresAt(now: number) {
+  return now + IMPERSONATION_DURATION;
+}
+
+export function isImpersonating(
+  session: Pick<Session, "impersonatorId"> | null | undefined
+): boolean {
+  return !!session?.impersonatorId;
+}
+
+// A session missing its expiry is treated as expired, never as unlimited
+export function isImpersonationExpired(
+  session: Pick<Session, "impersonatorId" | "impersonationExpiresAt">,
+  now: number
+): boolean {
+  if (!session.impersonatorId) return false;
+  return !session.impersonationExpiresAt || now >= session.impersonationExpiresAt;
+}
+
+export function getServerActionId(request: Request) {
+  return new URL(request.url).searchParams.get("__rsc_action_id");
+}
+
+// Server functions that only read, so "view as user" can still load what the
+// pages load on their own (a profile, more of the feed). Action IDs are the
+// module path and export name. Anything not listed is refused while
+// impersonating; add to this list only functions that never write.
+const READ_ONLY_ACTIONS = [
+  "/src/app/pages/user/profile/functions.ts#getPublicProfile",
+  "/src/app/pages/posts/functions.ts#loadMorePosts",
+  "/src/app/pages/posts/functions.ts#getKudosGivers",
+];
+
+export function isReadOnlyAction(actionId: string) {
+  return READ_ONLY_ACTIONS.some((readOnly) => actionId.endsWith(readOnly));
+}
+
+// Impersonation is view-only: server functions that could write are refused
+export function isMutatingServerAction(request: Request) {
+  const actionId = getServerActionId(request);
+  return actionId !== null && !isReadOnlyAction(actionId);
+}
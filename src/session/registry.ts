@@ -0,0 +1,110 @@
+import { env } from "cloudflare:workers";
+import { db } from "@/db";
+import { describeUserAgent, getClientIp } from "@/app/lib/device";
+import type { Session } from "./durableObject";
+import { getSessionLimits } from "./expiry";
+
+// Avoid a D1 write on every request; last-seen only needs to be roughly right
+const ACTIVITY_UPDATE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+// Record that a signed-in session made a request, registering it if it's new
+export async function recordSessionActivity(session: Session, request: Request) {
+  if (!session.id || !session.userId) return;
+
+  try {
+    const existing = await db.userSession.findUnique({
+      where: { id: session.id },
+      select: { lastSeenAt: true },
+    });
+
+    if (existing && existing.lastSeenAt.getTime() > Date.now() - ACTIVITY_UPDATE_INTERVAL) {
+      return;
+    }
+
+    const userAgent = request.headers.get("user-agent");
+    const ipAddress = getClientIp(request);
+
+    await db.userSession.upsert({
+      where: { id: session.id },
+      create: {
+        id: session.id,
+        userId: session.userId,
+        deviceName: describeUserAgent(userAgent),
+        userAgent,
+        ipAddress,
+        createdAt: new Date(session.createdAt),
+      },
+      update: {
+        ipAddress,
+        lastSeenAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error("Error recording session activity:", error);
+    // Don't fail the request if the registry can't be updated
+  }
+}
+
+export async function listUserSessions(userId: string) {
+  // Sessions past their limits are already dead in their Durable Object
+  const { idleTimeoutMs, maxLifetimeMs } = getSessionLimits(env);
+  await db.userSession.deleteMany({
+    where: {
+      userId,
+      OR: [
+        { createdAt: { lt: new Date(Date.now() - maxLifetimeMs) } },
+        { lastSeenAt: { lt: new Date(Date.now() - idleTimeoutMs) } },
+      ],
+    },
+  });
+
+  return db.userSession.findMany({
+    where: { userId },
+    orderBy: { lastSeenAt: "desc" },
+  });
+}
+
+async function revokeSessionDurableObject(sessionId: string) {
+  const doId = env.SESSION_DURABLE_OBJECT.idFromString(sessionId);
+  await env.SESSION_DURABLE_OBJECT.get(doId).revokeSession();
+}
+
+// Remove a session from the registry without touching its Durable Object
+// (used on logout, where the session store has already revoked it)
+export async function forgetUserSession(sessionId: string) {
+  await db.userSession.deleteMany({ where: { id: sessionId } });
+}
+
+// Sign out a single session belonging to the user
+export async function revokeUserSession(userId: string, sessionId: string) {
+  const session = await db.userSession.findFirst({
+    where: { id: sessionId, userId },
+  });
+
+  if (!session) return false;
+
+  await revokeSessionDurableObject(session.id);
+  await forgetUserSession(session.id);
+  return true;
+}
+
+// Sign out every session for the user, optionally keeping one (the current device)
+export async function revokeAllUserSessions(
+  userId: string,
+  { except }: { except?: string } = {}
+) {
+  const sessions = await db.userSession.findMany({
+    where: {
+      userId,
+      ...(except && { id: { not: except } }),
+    },
+    select: { id: true },
+  });
+
+  await Promise.all(sessions.map(({ id }) => revokeSessionDurableObject(id)));
+  await db.userSession.deleteMany({
+    where: { id: { in: sessions.map(({ id }) => id) } },
+  });
+
+  return sessions.length;
+}
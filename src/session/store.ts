@@ -1,4 +1,5 @@
 import { defineDurableSession } from "rwsdk/auth";
+import type { Session } from "./durableObject";
 
 export let sessions: ReturnType<typeof createSessionStore>;
 
@@ -11,3 +12,28 @@ export const setupSessionStore = (env: Env) => {
   sessions = createSessionStore(env);
   return sessions;
 };
+
+// Sliding renewal: push the session's idle timeout forward
+export const renewSession = async (env: Env, session: Session) => {
+  if (!session.id) return;
+
+  const doId = env.SESSION_DURABLE_OBJECT.idFromString(session.id);
+  await env.SESSION_DURABLE_OBJECT.get(doId).touchSession();
+};
+
+// Keep a WebAuthn challenge on the current session. Saving a new one would
+// rotate the cookie, signing out whoever is signed in or dropping a pending
+// second factor, so only visitors without a session get a fresh one.
+export const saveChallenge = async (
+  env: Env,
+  session: Session | null | undefined,
+  headers: Headers,
+  challenge: string | null
+) => {
+  if (session?.id) {
+    const doId = env.SESSION_DURABLE_OBJECT.idFromString(session.id);
+    await env.SESSION_DURABLE_OBJECT.get(doId).setChallenge(challenge);
+  } else if (challenge) {
+    await sessions.save(headers, { challenge });
+  }
+};
@@ -8,6 +8,7 @@ vi.mock('cloudflare:workers', () => ({
     WEBAUTHN_RP_ID: 'localhost',
     WEBAUTHN_APP_NAME: 'Test App',
     SESSION_DURABLE_OBJECT: {},
+    RATE_LIMIT_DURABLE_OBJECT: {},
     DB: {},
   },
 }))
@@ -28,6 +29,7 @@ vi.mock('@/session/store', () => ({
     load: vi.fn(),
     remove: vi.fn(),
   },
+  saveChallenge: vi.fn(),
 }))
 
 // Mock database
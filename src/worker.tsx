@@ -9,15 +9,25 @@ import { TasksPage } from "@/app/pages/TasksPage";
 import { setCommonHeaders } from "@/app/headers";
 import { userRoutes } from "@/app/pages/user/routes";
 import { routes as superuserRoutes } from "@/app/pages/superuser/routes";
-import { sessions, setupSessionStore } from "./session/store";
+import { devRoutes } from "@/app/pages/dev/routes";
+import InvitationPage from "@/app/pages/invite/InvitationPage";
+import { orgRoutes } from "@/app/pages/org/routes";
+import { postRoutes } from "@/app/pages/posts/routes";
+import { sessions, setupSessionStore, renewSession } from "./session/store";
+import { recordSessionActivity } from "./session/registry";
+import { isImpersonating } from "./session/impersonation";
+import { enforceImpersonation } from "@/app/pages/superuser/users/impersonation";
 import { Session } from "./session/durableObject";
 import { type User, setupDb, db } from "./db";
 import { env } from "cloudflare:workers";
 export { SessionDurableObject } from "./session/durableObject";
+export { RateLimitDurableObject } from "./rateLimit/durableObject";
 
 export type AppContext = {
   session: Session | null;
   user: User | null;
+  // The SUPERUSER behind a "view as user" session; user is who they're viewing as
+  impersonator?: User | null;
 };
 
 // Middleware to require authentication
@@ -52,6 +62,11 @@ export default defineApp([
       throw error;
     }
 
+    if (isImpersonating(ctx.session)) {
+      const response = await enforceImpersonation(ctx, request, headers);
+      if (response) return response;
+    }
+
     if (ctx.session?.userId) {
       ctx.user = await db.user.findUnique({
         where: {
@@ -61,6 +76,17 @@ export default defineApp([
           credentials: true,
         },
       });
+
+      // Disabling revokes sessions; this catches any that slipped through
+      if (ctx.user?.disabledAt && !ctx.impersonator) {
+        ctx.user = null;
+      }
+
+      // Impersonated sessions stay out of the user's own device list
+      if (ctx.user && !ctx.impersonator) {
+        await renewSession(env, ctx.session);
+        await recordSessionActivity(ctx.session, request);
+      }
     }
   },
   render(Document, [
@@ -83,7 +109,11 @@ export default defineApp([
       },
       Home,
     ]),
+    route("/invite/:token", InvitationPage),
     prefix("/user", userRoutes),
+    prefix("/org", orgRoutes),
+    prefix("/posts", postRoutes),
     prefix("/superuser", superuserRoutes),
+    prefix("/dev", devRoutes),
   ]),
 ]);
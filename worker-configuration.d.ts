@@ -5,11 +5,15 @@ declare namespace Cloudflare {
 	interface Env {
 		WEBAUTHN_APP_NAME: "ilcakns";
 		EMAIL_FROM: "onboarding@resend.dev";
+		SESSION_IDLE_TIMEOUT_MINUTES: "4320";
+		SESSION_MAX_LIFETIME_DAYS: "30";
 		WEBAUTHN_RP_ID: string;
 		AUTH_SECRET_KEY: string;
 		DATABASE_URL: string;
 		RESEND_API_KEY: string;
+		EMAIL_TRANSPORT: string;
 		SESSION_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").SessionDurableObject>;
+		RATE_LIMIT_DURABLE_OBJECT: DurableObjectNamespace<import("./src/worker").RateLimitDurableObject>;
 		STORAGE: R2Bucket;
 		DB: D1Database;
 		ASSETS: Fetcher;